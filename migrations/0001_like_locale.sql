@@ -0,0 +1,49 @@
+-- Add a locale to the like tables (likes given on translated comics)
+-- For databases created before like locales; new databases get the columns from schema.sql.
+-- Existing likes become locale-less (''), i.e. likes of the original comic / What If.
+--
+--   wrangler d1 execute xkcd --file=./migrations/0001_like_locale.sql
+--   wrangler d1 execute xkcd --file=./schema.sql
+--   curl -X POST "https://{{ your workers.dev hostname }}/admin/likes/rollup"
+
+-- like_counts: the locale joins the unique key, so the table is rebuilt
+CREATE TABLE like_counts_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    comic_id INTEGER NOT NULL,
+    comic_type TEXT NOT NULL,
+    locale TEXT NOT NULL DEFAULT '',
+    count INTEGER DEFAULT 0,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE(comic_id, comic_type, locale)
+);
+INSERT INTO like_counts_new (id, comic_id, comic_type, count, created_at, updated_at)
+SELECT id, comic_id, comic_type, count, created_at, updated_at FROM like_counts;
+DROP TABLE like_counts;
+ALTER TABLE like_counts_new RENAME TO like_counts;
+CREATE INDEX IF NOT EXISTS idx_like_counts_comic ON like_counts(comic_id, comic_type);
+
+-- like_events: the locale joins the primary key (older databases may not have the table yet)
+CREATE TABLE IF NOT EXISTS like_events (
+    client_hash TEXT NOT NULL,
+    comic_id INTEGER NOT NULL,
+    comic_type TEXT NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (client_hash, comic_id, comic_type)
+);
+CREATE TABLE like_events_new (
+    client_hash TEXT NOT NULL,
+    comic_id INTEGER NOT NULL,
+    comic_type TEXT NOT NULL,
+    locale TEXT NOT NULL DEFAULT '',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (client_hash, comic_id, comic_type, locale)
+);
+INSERT INTO like_events_new (client_hash, comic_id, comic_type, created_at)
+SELECT client_hash, comic_id, comic_type, created_at FROM like_events;
+DROP TABLE like_events;
+ALTER TABLE like_events_new RENAME TO like_events;
+
+-- like_daily / like_trending are derived; schema.sql recreates them and the like rollup refills them
+DROP TABLE IF EXISTS like_daily;
+DROP TABLE IF EXISTS like_trending;
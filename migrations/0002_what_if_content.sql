@@ -0,0 +1,11 @@
+-- Store full What If article content (question, asker, answer HTML, images, footnotes)
+-- For databases created before article content; new databases get the columns from schema.sql.
+-- Stored articles are re-crawled a few per run by the What If crawler until all have content.
+--
+--   wrangler d1 execute xkcd --file=./migrations/0002_what_if_content.sql
+
+ALTER TABLE what_if ADD COLUMN question TEXT;
+ALTER TABLE what_if ADD COLUMN asker TEXT;
+ALTER TABLE what_if ADD COLUMN answer TEXT;
+ALTER TABLE what_if ADD COLUMN images TEXT;
+ALTER TABLE what_if ADD COLUMN footnotes TEXT;
@@ -23,10 +23,52 @@ CREATE TABLE IF NOT EXISTS what_if (
     title TEXT NOT NULL,
     url TEXT NOT NULL,
     date TEXT,
+    question TEXT,
+    asker TEXT,
+    answer TEXT, -- sanitized HTML (src/crawlers/whatif-article.ts)
+    images TEXT, -- JSON [{ src, title }]
+    footnotes TEXT, -- JSON [{ num, html }]
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Full-text search index over comics (rowid = comics.id)
+-- Kept in sync by Database.insertComic; rebuild with POST /admin/search/rebuild
+CREATE VIRTUAL TABLE IF NOT EXISTS comics_fts USING fts5(
+    title,
+    safe_title,
+    alt,
+    transcript,
+    tokenize = 'porter unicode61 remove_diacritics 2',
+    prefix = '2 3'
+);
+
+-- Images of What If articles with their sizes (see /what-if/{id}/images), written by the What If crawler
+-- kind: 'thumbnail' = the article's image on the archive page, 'illustration' = inline image (in article order)
+-- width/height are NULL when the image couldn't be probed
+CREATE TABLE IF NOT EXISTS what_if_images (
+    article_id INTEGER NOT NULL,
+    position INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    src TEXT NOT NULL,
+    title TEXT NOT NULL DEFAULT '',
+    width INTEGER,
+    height INTEGER,
+    PRIMARY KEY (article_id, position)
+);
+
+-- Full-text search index over What If articles (rowid = what_if.id)
+-- Holds the plain text of the question, answer and footnotes; kept in sync by Database.insertWhatIf,
+-- rebuild with POST /admin/search/rebuild
+CREATE VIRTUAL TABLE IF NOT EXISTS what_if_fts USING fts5(
+    title,
+    question,
+    answer,
+    footnotes,
+    tokenize = 'porter unicode61 remove_diacritics 2',
+    prefix = '2 3'
+);
+
 -- Localized comics data tables (one table per language)
 -- Simplified Chinese comics
 CREATE TABLE IF NOT EXISTS comics_zh_cn (
@@ -101,15 +143,179 @@ CREATE TABLE IF NOT EXISTS comics_ru (
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Full-text search indexes over localized comics (rowid = comics_<locale>.id)
+-- Chinese tables use the trigram tokenizer (no word boundaries in CJK text), others use unicode61
+-- Triggers keep them in sync with every crawler that writes the localized tables
+CREATE VIRTUAL TABLE IF NOT EXISTS comics_zh_cn_fts USING fts5(title, alt, transcript, tokenize = 'trigram');
+CREATE TRIGGER IF NOT EXISTS comics_zh_cn_fts_insert AFTER INSERT ON comics_zh_cn BEGIN
+    DELETE FROM comics_zh_cn_fts WHERE rowid = new.id;
+    INSERT INTO comics_zh_cn_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_zh_cn_fts_update AFTER UPDATE ON comics_zh_cn BEGIN
+    DELETE FROM comics_zh_cn_fts WHERE rowid = old.id;
+    INSERT INTO comics_zh_cn_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_zh_cn_fts_delete AFTER DELETE ON comics_zh_cn BEGIN
+    DELETE FROM comics_zh_cn_fts WHERE rowid = old.id;
+END;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS comics_zh_tw_fts USING fts5(title, alt, transcript, tokenize = 'trigram');
+CREATE TRIGGER IF NOT EXISTS comics_zh_tw_fts_insert AFTER INSERT ON comics_zh_tw BEGIN
+    DELETE FROM comics_zh_tw_fts WHERE rowid = new.id;
+    INSERT INTO comics_zh_tw_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_zh_tw_fts_update AFTER UPDATE ON comics_zh_tw BEGIN
+    DELETE FROM comics_zh_tw_fts WHERE rowid = old.id;
+    INSERT INTO comics_zh_tw_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_zh_tw_fts_delete AFTER DELETE ON comics_zh_tw BEGIN
+    DELETE FROM comics_zh_tw_fts WHERE rowid = old.id;
+END;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS comics_es_fts USING fts5(title, alt, transcript, tokenize = 'unicode61 remove_diacritics 2');
+CREATE TRIGGER IF NOT EXISTS comics_es_fts_insert AFTER INSERT ON comics_es BEGIN
+    DELETE FROM comics_es_fts WHERE rowid = new.id;
+    INSERT INTO comics_es_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_es_fts_update AFTER UPDATE ON comics_es BEGIN
+    DELETE FROM comics_es_fts WHERE rowid = old.id;
+    INSERT INTO comics_es_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_es_fts_delete AFTER DELETE ON comics_es BEGIN
+    DELETE FROM comics_es_fts WHERE rowid = old.id;
+END;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS comics_fr_fts USING fts5(title, alt, transcript, tokenize = 'unicode61 remove_diacritics 2');
+CREATE TRIGGER IF NOT EXISTS comics_fr_fts_insert AFTER INSERT ON comics_fr BEGIN
+    DELETE FROM comics_fr_fts WHERE rowid = new.id;
+    INSERT INTO comics_fr_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_fr_fts_update AFTER UPDATE ON comics_fr BEGIN
+    DELETE FROM comics_fr_fts WHERE rowid = old.id;
+    INSERT INTO comics_fr_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_fr_fts_delete AFTER DELETE ON comics_fr BEGIN
+    DELETE FROM comics_fr_fts WHERE rowid = old.id;
+END;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS comics_de_fts USING fts5(title, alt, transcript, tokenize = 'unicode61 remove_diacritics 2');
+CREATE TRIGGER IF NOT EXISTS comics_de_fts_insert AFTER INSERT ON comics_de BEGIN
+    DELETE FROM comics_de_fts WHERE rowid = new.id;
+    INSERT INTO comics_de_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_de_fts_update AFTER UPDATE ON comics_de BEGIN
+    DELETE FROM comics_de_fts WHERE rowid = old.id;
+    INSERT INTO comics_de_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_de_fts_delete AFTER DELETE ON comics_de BEGIN
+    DELETE FROM comics_de_fts WHERE rowid = old.id;
+END;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS comics_ru_fts USING fts5(title, alt, transcript, tokenize = 'unicode61 remove_diacritics 2');
+CREATE TRIGGER IF NOT EXISTS comics_ru_fts_insert AFTER INSERT ON comics_ru BEGIN
+    DELETE FROM comics_ru_fts WHERE rowid = new.id;
+    INSERT INTO comics_ru_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_ru_fts_update AFTER UPDATE ON comics_ru BEGIN
+    DELETE FROM comics_ru_fts WHERE rowid = old.id;
+    INSERT INTO comics_ru_fts (rowid, title, alt, transcript) VALUES (new.id, new.title, COALESCE(new.alt, ''), COALESCE(new.transcript, ''));
+END;
+CREATE TRIGGER IF NOT EXISTS comics_ru_fts_delete AFTER DELETE ON comics_ru BEGIN
+    DELETE FROM comics_ru_fts WHERE rowid = old.id;
+END;
+
 -- Like counts table (only store total counts)
+-- locale is the language the likes were given in ('' = the original comic / What If); each locale is counted separately
 CREATE TABLE IF NOT EXISTS like_counts (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     comic_id INTEGER NOT NULL,
     comic_type TEXT NOT NULL, -- 'comic' or 'what_if'
+    locale TEXT NOT NULL DEFAULT '',
     count INTEGER DEFAULT 0,
     created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
     updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-    UNIQUE(comic_id, comic_type)
+    UNIQUE(comic_id, comic_type, locale)
+);
+
+-- Like events table (one row per client and item; like_counts is the aggregate kept in sync with it)
+-- client_hash is a salted SHA-256 of the X-Device-Id header, or of the client IP when no device id is sent
+CREATE TABLE IF NOT EXISTS like_events (
+    client_hash TEXT NOT NULL,
+    comic_id INTEGER NOT NULL,
+    comic_type TEXT NOT NULL, -- 'comic' or 'what_if'
+    locale TEXT NOT NULL DEFAULT '',
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (client_hash, comic_id, comic_type, locale)
+);
+
+-- Daily like activity (likes still held per item and UTC day, kept in sync with like_events)
+-- Backs the windowed top lists; days older than a year are pruned by the scheduled rollup
+CREATE TABLE IF NOT EXISTS like_daily (
+    comic_id INTEGER NOT NULL,
+    comic_type TEXT NOT NULL, -- 'comic' or 'what_if'
+    locale TEXT NOT NULL DEFAULT '',
+    day TEXT NOT NULL, -- YYYY-MM-DD
+    count INTEGER DEFAULT 0,
+    PRIMARY KEY (comic_type, locale, day, comic_id)
+);
+
+-- Trending scores (time-decayed like activity), rebuilt by the scheduled rollup
+CREATE TABLE IF NOT EXISTS like_trending (
+    comic_id INTEGER NOT NULL,
+    comic_type TEXT NOT NULL, -- 'comic' or 'what_if'
+    locale TEXT NOT NULL DEFAULT '',
+    score REAL NOT NULL,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (comic_type, locale, comic_id)
+);
+
+-- Favorites synced between the devices of one owner (see /favorites)
+-- owner_hash is a salted SHA-256 of the X-Device-Id header; removed favorites stay as tombstones (deleted = 1)
+-- updated_at is the client's edit time (ms) and decides conflicts; version orders changes per owner for incremental sync
+CREATE TABLE IF NOT EXISTS favorites (
+    owner_hash TEXT NOT NULL,
+    comic_id INTEGER NOT NULL,
+    comic_type TEXT NOT NULL, -- 'comic' or 'what_if'
+    deleted INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL,
+    version INTEGER NOT NULL,
+    PRIMARY KEY (owner_hash, comic_type, comic_id)
+);
+
+-- Read progress: ids each client has seen, as JSON run-length encoded ranges ([[1,2900],[2950,2950]])
+-- owner_hash is a salted SHA-256 of the X-Device-Id header
+CREATE TABLE IF NOT EXISTS read_progress (
+    owner_hash TEXT NOT NULL,
+    comic_type TEXT NOT NULL, -- 'comic' or 'what_if'
+    ranges TEXT NOT NULL DEFAULT '[]',
+    version INTEGER NOT NULL DEFAULT 1,
+    updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (owner_hash, comic_type)
+);
+
+-- Comic of the day per UTC day and locale ('' = the original comics), see src/daily/pick.ts
+CREATE TABLE IF NOT EXISTS daily_comics (
+    locale TEXT NOT NULL DEFAULT '',
+    day TEXT NOT NULL, -- YYYY-MM-DD
+    comic_id INTEGER NOT NULL,
+    created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (locale, day)
+);
+
+-- Related comics term index (see src/search/related.ts), written when a comic is crawled
+-- weight is the term's share of the comic's unit-length title/alt/transcript vector
+CREATE TABLE IF NOT EXISTS comic_terms (
+    term TEXT NOT NULL,
+    comic_id INTEGER NOT NULL,
+    weight REAL NOT NULL,
+    PRIMARY KEY (term, comic_id)
+);
+
+-- Explicit references from a comic to other comics ("xkcd.com/1234" in its alt text or transcript)
+CREATE TABLE IF NOT EXISTS comic_links (
+    comic_id INTEGER NOT NULL,
+    linked_id INTEGER NOT NULL,
+    PRIMARY KEY (comic_id, linked_id)
 );
 
 -- Crawler error records table
@@ -127,8 +333,15 @@ CREATE TABLE IF NOT EXISTS crawl_errors (
 
 -- Create indexes
 CREATE INDEX IF NOT EXISTS idx_comics_date ON comics(year, month, day);
+CREATE INDEX IF NOT EXISTS idx_comics_month_day ON comics(month, day);
 -- Indexes for localized comics tables (using primary key id)
 -- No additional indexes needed as id is already indexed as PRIMARY KEY
 CREATE INDEX IF NOT EXISTS idx_like_counts_comic ON like_counts(comic_id, comic_type);
+CREATE INDEX IF NOT EXISTS idx_like_events_comic ON like_events(comic_id, comic_type);
+CREATE INDEX IF NOT EXISTS idx_like_counts_rank ON like_counts(comic_type, locale, count DESC);
+CREATE INDEX IF NOT EXISTS idx_like_trending_score ON like_trending(comic_type, locale, score DESC);
+CREATE INDEX IF NOT EXISTS idx_favorites_version ON favorites(owner_hash, version);
+CREATE INDEX IF NOT EXISTS idx_comic_terms_comic ON comic_terms(comic_id);
+CREATE INDEX IF NOT EXISTS idx_comic_links_linked ON comic_links(linked_id);
 CREATE INDEX IF NOT EXISTS idx_crawl_errors_task_id ON crawl_errors(task_id);
 CREATE INDEX IF NOT EXISTS idx_crawl_errors_timestamp ON crawl_errors(timestamp);
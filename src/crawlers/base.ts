@@ -10,6 +10,7 @@ export interface CrawlerEnv {
   FCM_ENABLED?: string; // 'true' or '1' to enable
   FCM_TEST_MODE?: string; // 'true' or '1' to enable test mode (send to test token instead of topic)
   FCM_TEST_TOKEN?: string; // Test device token (set via wrangler secret)
+  CRAWLER_STATE?: KVNamespace; // Crawler progress (e.g. the last known What If article)
 }
 
 export abstract class BaseCrawler {
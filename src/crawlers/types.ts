@@ -1,5 +1,7 @@
 // Crawler types and interfaces
 
+import { WhatIfFootnote, WhatIfImage } from '../types';
+
 export interface CrawlTask {
   id: string;
   type: 'xkcd' | 'whatif' | 'localized';
@@ -80,6 +82,11 @@ export interface WhatIfArticleData {
   title: string;
   url: string;
   date: string;
+  question: string;
+  asker: string;
+  answer: string;
+  images: WhatIfImage[];
+  footnotes: WhatIfFootnote[];
 }
 
 export interface LocalizedComicData {
@@ -0,0 +1,163 @@
+/**
+ * What If article and archive page parsers
+ *
+ * An article page holds one <article class="entry"> with the title (<h1>), the
+ * question (<p id="question">), the asker (<p id="attribute">, "—Name") and the
+ * answer paragraphs. Footnotes are inline <span class="ref"> elements holding
+ * the marker (<span class="refnum">) and the note (<span class="refbody">); they
+ * are moved out of the answer, which keeps a numbered link to each note.
+ */
+
+import { WhatIfFootnote, WhatIfImage } from '../types';
+import { WhatIfArticleData } from './types';
+import { decodeHtmlEntities, htmlToText, sanitizeHtml } from '../utils/html-sanitize';
+
+export interface WhatIfArchiveEntry {
+  id: number;
+  title: string;
+  date: string; // as shown on the archive page, e.g. "November 6, 2017"
+  thumbnail: string | null; // absolute URL of the archive image
+}
+
+export const WHAT_IF_ARCHIVE_URL = 'https://what-if.xkcd.com/archive/';
+
+export function getWhatIfUrl(articleId: number): string {
+  return `https://what-if.xkcd.com/${articleId}/`;
+}
+
+/**
+ * Usual location of an article's archive thumbnail, for articles whose archive entry wasn't crawled
+ */
+export function getWhatIfThumbnailFallback(articleId: number): string {
+  return `https://what-if.xkcd.com/imgs/a/${articleId}/archive_crop.png`;
+}
+
+/**
+ * Parse an article page; null when it has no title
+ */
+export function parseWhatIfArticle(html: string, articleId: number): WhatIfArticleData | null {
+  const url = getWhatIfUrl(articleId);
+  const titleMatch = html.match(/<h1[^>]*>(.*?)<\/h1>/is);
+  const title = titleMatch ? htmlToText(titleMatch[1]) : '';
+  if (!title) return null;
+  const dateMatch = html.match(/<div[^>]*class="date"[^>]*>(.*?)<\/div>/is);
+  const date = dateMatch ? htmlToText(dateMatch[1]) : '';
+
+  const article = html.match(/<article[^>]*class="[^"]*\bentry\b[^"]*"[^>]*>([\s\S]*?)<\/article>/i)?.[1] ?? html;
+  const questionMatch = article.match(/<p[^>]*id="question"[^>]*>([\s\S]*?)<\/p>/i);
+  const askerMatch = article.match(/<p[^>]*id="attribute"[^>]*>([\s\S]*?)<\/p>/i);
+
+  // The answer is everything after the asker (or the question, or the title)
+  const header = askerMatch ?? questionMatch ?? article.match(/<h1[^>]*>.*?<\/h1>\s*(?:<\/a>)?/is);
+  const body = (header ? article.slice(header.index! + header[0].length) : article)
+    .replace(/<div[^>]*class="date"[^>]*>.*?<\/div>/is, '');
+
+  const { html: answerHtml, notes } = extractFootnotes(body);
+  const answer = sanitizeHtml(answerHtml, url).trim();
+  const footnotes: WhatIfFootnote[] = notes.map((note, index) => ({ num: index + 1, html: sanitizeHtml(note, url).trim() }));
+
+  return {
+    id: articleId,
+    title,
+    url,
+    date,
+    question: questionMatch ? htmlToText(questionMatch[1]) : '',
+    asker: askerMatch ? htmlToText(askerMatch[1]).replace(/^[-—–\s]+/, '') : '',
+    answer,
+    images: extractImages([answer, ...footnotes.map(({ html }) => html)].join('\n')),
+    footnotes
+  };
+}
+
+/**
+ * Articles listed on the archive page (https://what-if.xkcd.com/archive/), in page order
+ * Each <div class="archive-entry"> links to the article and holds its title and date;
+ * without entry markup every article link on the page is taken
+ */
+export function parseWhatIfArchive(html: string): WhatIfArchiveEntry[] {
+  const entries = new Map<number, WhatIfArchiveEntry>();
+  const blocks = html.split(/<div[^>]*class="archive-entry"[^>]*>/i).slice(1);
+
+  for (const block of blocks.length > 0 ? blocks : [html]) {
+    for (const match of block.matchAll(/href="(?:https?:\/\/what-if\.xkcd\.com)?\/(\d+)\/?"/gi)) {
+      const id = parseInt(match[1]);
+      if (!(id > 0) || entries.has(id)) continue;
+      const title = blocks.length > 0 ? block.match(/class="archive-title"[^>]*>([\s\S]*?)<\/h1>/i)?.[1] : undefined;
+      const date = blocks.length > 0 ? block.match(/class="archive-date"[^>]*>([\s\S]*?)<\/h2>/i)?.[1] : undefined;
+      const thumbnail = blocks.length > 0 ? block.match(/<img[^>]*class="archive-image"[^>]*>/i)?.[0].match(/\ssrc="([^"]+)"/)?.[1] : undefined;
+      entries.set(id, {
+        id,
+        title: title ? htmlToText(title) : '',
+        date: date ? htmlToText(date) : '',
+        thumbnail: thumbnail ? new URL(decodeHtmlEntities(thumbnail), WHAT_IF_ARCHIVE_URL).toString() : null
+      });
+      if (blocks.length > 0) break;
+    }
+  }
+  return [...entries.values()];
+}
+
+/**
+ * Replace each <span class="ref"> with a numbered link and collect the notes
+ */
+function extractFootnotes(html: string): { html: string; notes: string[] } {
+  const notes: string[] = [];
+  const output: string[] = [];
+  const opening = /<span[^>]*class="ref"[^>]*>/gi;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = opening.exec(html)) !== null) {
+    const end = findClosingSpan(html, match.index + match[0].length);
+    if (end === -1) break;
+    const inner = html.slice(match.index + match[0].length, end);
+    const num = notes.length + 1;
+    notes.push(findSpanContent(inner, 'refbody') ?? inner);
+    output.push(html.slice(lastIndex, match.index), `<sup class="ref" id="ref-${num}"><a href="#fn-${num}">[${num}]</a></sup>`);
+    lastIndex = end + '</span>'.length;
+    opening.lastIndex = lastIndex;
+  }
+  output.push(html.slice(lastIndex));
+  return { html: output.join(''), notes };
+}
+
+// Index of the </span> closing the span whose content starts at `from`, or -1
+function findClosingSpan(html: string, from: number): number {
+  const tags = /<(\/?)span\b[^>]*>/gi;
+  tags.lastIndex = from;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = tags.exec(html)) !== null) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return match.index;
+  }
+  return -1;
+}
+
+function findSpanContent(html: string, className: string): string | null {
+  const match = new RegExp(`<span[^>]*class="${className}"[^>]*>`, 'i').exec(html);
+  if (!match) return null;
+  const start = match.index + match[0].length;
+  const end = findClosingSpan(html, start);
+  return end === -1 ? html.slice(start) : html.slice(start, end);
+}
+
+/**
+ * Images referenced by sanitized markup, in order, without duplicates
+ */
+function extractImages(html: string): WhatIfImage[] {
+  const images: WhatIfImage[] = [];
+  const seen = new Set<string>();
+  for (const [tag] of html.matchAll(/<img\b[^>]*>/gi)) {
+    const src = tag.match(/\ssrc="([^"]*)"/)?.[1];
+    if (!src || seen.has(src)) continue;
+    seen.add(src);
+    images.push({ src: decodeAttribute(src), title: decodeAttribute(tag.match(/\stitle="([^"]*)"/)?.[1] ?? '') });
+  }
+  return images;
+}
+
+// Attributes of sanitized markup are escaped by escapeHtml
+function decodeAttribute(value: string): string {
+  return value.replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
@@ -3,33 +3,50 @@
 import { Database } from '../database';
 import { BaseCrawler } from './base';
 import { CrawlResult, CrawlStatus, WhatIfArticleData } from './types';
-import { WhatIf } from '../types';
+import { WhatIf, WhatIfImageRecord } from '../types';
 import { sendNewWhatIfNotification } from '../utils/lambda-fcm';
+import { batchGetImageDimensions } from '../utils/image-probe';
+import { getWhatIfThumbnailFallback, getWhatIfUrl, parseWhatIfArchive, parseWhatIfArticle, WhatIfArchiveEntry, WHAT_IF_ARCHIVE_URL } from './whatif-article';
+
+// Stored articles without content or image catalog re-crawled per run
+const CONTENT_BACKFILL_SIZE = 10;
+
+// Articles missing from the table crawled per run (a new database fills up over several runs)
+const MAX_MISSING_PER_RUN = 40;
+
+// Articles probed past the last known one when the archive is unavailable
+const MAX_PROBES = 5;
+
+// Images probed at once when cataloging an article
+const IMAGE_PROBE_CONCURRENCY = 3;
+
+// Images probed per article; the rest are cataloged without a size
+const MAX_IMAGE_PROBES = 20;
+
+// Fetches per run (archive, article pages, image probes), leaving room below Cloudflare's
+// 50 subrequest limit for the new-article notification
+const SUBREQUEST_BUDGET = 45;
+
+// CRAWLER_STATE key of the last known article
+const STATE_KEY = 'whatif-crawler-state';
+
+interface WhatIfCrawlerState {
+  // Newest article stored along with every new one before it, so an article that failed is
+  // still notified when a later run stores it
+  lastKnownId: number;
+  checkedAt: string;
+  source: 'archive' | 'probe';
+  // Last article tried by the content backfill
+  backfillAfterId?: number;
+}
 
 export class WhatIfCrawler extends BaseCrawler {
+  private subrequestsLeft = 0;
+
   constructor(db: Database, env?: any) {
     super(db, 'whatif', env);
   }
 
-  private async extractWhatIfContent(html: string, articleId: number): Promise<WhatIfArticleData | null> {
-    try {
-      const titleMatch = html.match(/<h1[^>]*>(.*?)<\/h1>/is);
-      const title = titleMatch?.[1]?.replace(/<[^>]*>/g, '').trim() || '';
-      const dateMatch = html.match(/<div[^>]*class=\"date\"[^>]*>(.*?)<\/div>/is);
-      const date = dateMatch?.[1]?.replace(/<[^>]*>/g, '').trim() || '';
-      if (!title) return null;
-      return {
-        id: articleId,
-        title,
-        url: `https://what-if.xkcd.com/${articleId}/`,
-        date
-      };
-    } catch (error) {
-      console.error(`Failed to extract content for article ${articleId}: ${error}`);
-      return null;
-    }
-  }
-
   async crawl(): Promise<CrawlResult> {
     const startTime = Date.now();
     let itemsProcessed = 0;
@@ -37,58 +54,98 @@ export class WhatIfCrawler extends BaseCrawler {
     let itemsUpdated = 0;
     let errors = 0;
     const errorDetails: string[] = [];
+    this.subrequestsLeft = SUBREQUEST_BUDGET;
 
     try {
       console.log('Starting What If article crawl');
 
-      // Get latest What If ID from the website
-      const latestWhatIfId = await this.getLatestWhatIfId();
-      console.log(`Latest What If ID: ${latestWhatIfId}`);
+      // Articles listed on the archive page but not stored yet: new articles and gaps
+      const state = await this.getState();
+      const storedIds = new Set(await this.db.getWhatIfIds());
+      const lastKnownId = state ? state.lastKnownId : Math.max(0, ...storedIds);
+      let archive: WhatIfArchiveEntry[] | null = null;
+      let discoveredIds: number[] = [];
+      try {
+        archive = await this.getArchiveEntries();
+        discoveredIds = archive
+          ? archive.map(entry => entry.id)
+          : await this.probeNewIds(lastKnownId);
+        console.log(`Discovered ${discoveredIds.length} What If articles (${archive ? 'archive' : 'probe'}), last known ID: ${lastKnownId}`);
+      } catch (error) {
+        // The content backfill doesn't depend on discovery, so it still runs
+        errors++;
+        const errorMsg = `Failed to discover new What If articles: ${error}`;
+        errorDetails.push(errorMsg);
+        console.error(errorMsg);
+        await this.recordError('DISCOVERY_ERROR', errorMsg, (error as Error).stack);
+      }
+      const archiveEntries = new Map((archive || []).map(entry => [entry.id, entry]));
+
+      const missingIds = discoveredIds
+        .filter(id => !storedIds.has(id))
+        .sort((a, b) => a - b)
+        .slice(0, MAX_MISSING_PER_RUN);
+
+      // Articles stored before their content or images were crawled are fetched again, a few per run,
+      // continuing after the last one tried so articles whose page keeps failing don't block the rest
+      const backfillIds = await this.db.getIncompleteWhatIfIds(CONTENT_BACKFILL_SIZE, state?.backfillAfterId);
 
-      // Get current latest What If ID from database
-      const currentLatest = await this.getCurrentLatestWhatIfId();
-      console.log(`Current latest What If ID in database: ${currentLatest}`);
+      const savedState: WhatIfCrawlerState = {
+        lastKnownId,
+        checkedAt: new Date().toISOString(),
+        source: archive ? 'archive' : 'probe',
+        backfillAfterId: backfillIds[backfillIds.length - 1] || 0
+      };
+      await this.saveState(savedState);
 
-      if (latestWhatIfId <= currentLatest) {
+      if (missingIds.length === 0 && backfillIds.length === 0) {
         console.log('No new What If articles to crawl');
         return {
-          success: true,
+          success: errors === 0,
           items_processed: 0,
           items_added: 0,
           items_updated: 0,
-          errors: 0,
-          duration: Date.now() - startTime
+          errors,
+          duration: Date.now() - startTime,
+          error_details: errorDetails.length > 0 ? errorDetails : undefined
         };
       }
 
-      // Determine range to crawl
-      const startId = currentLatest + 1;
-      const totalToCrawl = latestWhatIfId - currentLatest;
-      console.log(`Crawling What If articles ${startId} to ${latestWhatIfId} (${totalToCrawl} articles)`);
+      if (missingIds.length > 0) console.log(`Crawling missing What If articles ${missingIds.join(', ')}`);
+      if (backfillIds.length > 0) console.log(`Re-crawling content of What If articles ${backfillIds.join(', ')}`);
+      const articleIds = [...missingIds, ...backfillIds];
+      const storedNow = new Set<number>();
 
-      // Process articles one at a time to minimize subrequests
-      for (let currentId = startId; currentId <= latestWhatIfId; currentId++) {
+      // Process articles one at a time until the subrequest budget runs out; the rest wait for the next run
+      for (const currentId of articleIds) {
+        if (!this.useSubrequests(1)) {
+          console.log(`Subrequest budget used up, What If article ${currentId} and later wait for the next run`);
+          break;
+        }
         console.log(`Processing article: ${currentId}`);
+        let cataloged = true;
 
         try {
           const articleData = await this.getWhatIfData(currentId);
           if (articleData && articleData.title) {
+            // Article pages carry no date; the archive lists one
+            if (!articleData.date) articleData.date = archiveEntries.get(currentId)?.date || '';
             const whatIf = this.transformWhatIfData(articleData, currentId);
-            
-            // Check if article already exists
-            const existing = await this.db.getWhatIf(currentId);
-            
-            if (existing) {
-              await this.db.insertWhatIf(whatIf);
+            const thumbnail = archiveEntries.get(currentId)?.thumbnail || getWhatIfThumbnailFallback(currentId);
+
+            await this.db.insertWhatIf(whatIf);
+            storedNow.add(currentId);
+            cataloged = await this.storeImages(whatIf, thumbnail);
+
+            if (storedIds.has(currentId)) {
               itemsUpdated++;
               console.log(`Updated What If article ${currentId}: ${whatIf.title}`);
             } else {
-              await this.db.insertWhatIf(whatIf);
               itemsAdded++;
               console.log(`Added What If article ${currentId}: ${whatIf.title}`);
               
-              // Send FCM notification if enabled
-              const fcmConfig = this.getFcmConfig();
+              // Send FCM notification if enabled (gaps below the last known article are filled silently)
+              const fcmConfig = currentId > lastKnownId && lastKnownId > 0 ? this.getFcmConfig() : null;
               if (fcmConfig) {
                 try {
                   await sendNewWhatIfNotification(
@@ -99,7 +156,7 @@ export class WhatIfCrawler extends BaseCrawler {
                       title: whatIf.title,
                       url: whatIf.url,
                       date: whatIf.date,
-                      featureImg: `https://what-if.xkcd.com/imgs/a/${whatIf.id}/archive_crop.png`,
+                      featureImg: thumbnail,
                     },
                     {
                       testMode: fcmConfig.testMode,
@@ -125,6 +182,21 @@ export class WhatIfCrawler extends BaseCrawler {
           console.error(errorMsg);
           await this.recordError('ARTICLE_CRAWL_ERROR', errorMsg, (error as Error).stack);
         }
+
+        if (!cataloged) {
+          console.log(`Subrequest budget used up, the images of What If article ${currentId} are cataloged by a later run`);
+          break;
+        }
+      }
+
+      // New articles stored in a row; the first one still missing stays new for the next run
+      let newestStoredId = lastKnownId;
+      for (const id of [...discoveredIds].sort((a, b) => a - b).filter(id => id > lastKnownId)) {
+        if (!storedIds.has(id) && !storedNow.has(id)) break;
+        newestStoredId = id;
+      }
+      if (newestStoredId > lastKnownId) {
+        await this.saveState({ ...savedState, lastKnownId: newestStoredId });
       }
 
       console.log(`Crawl completed. Processed: ${itemsProcessed}, Added: ${itemsAdded}, Updated: ${itemsUpdated}, Errors: ${errors}`);
@@ -154,56 +226,60 @@ export class WhatIfCrawler extends BaseCrawler {
     }
   }
 
-  private async getCurrentLatestWhatIfId(): Promise<number> {
+  private async getState(): Promise<WhatIfCrawlerState | null> {
+    if (!this.env?.CRAWLER_STATE) return null;
     try {
-      const result = await this.db.db.prepare('SELECT MAX(id) as max_id FROM what_if').first();
-      return (result as any)?.max_id || 0;
+      return await this.env.CRAWLER_STATE.get<WhatIfCrawlerState>(STATE_KEY, 'json');
     } catch (error) {
-      console.warn(`Failed to get current latest What If ID: ${error}`);
-      return 0;
+      console.warn(`Failed to read What If crawler state: ${error}`);
+      return null;
     }
   }
 
-  private async getLatestWhatIfId(): Promise<number> {
+  private async saveState(state: WhatIfCrawlerState): Promise<void> {
+    if (!this.env?.CRAWLER_STATE) return;
+    await this.env.CRAWLER_STATE.put(STATE_KEY, JSON.stringify(state));
+  }
+
+  // Take `count` subrequests from the run's budget; false (taking none) if they aren't left
+  private useSubrequests(count: number): boolean {
+    if (count > this.subrequestsLeft) return false;
+    this.subrequestsLeft -= count;
+    return true;
+  }
+
+  /**
+   * Articles listed on the archive page, or null when it can't be fetched or parsed
+   * or no subrequest is left for it
+   */
+  private async getArchiveEntries(): Promise<WhatIfArchiveEntry[] | null> {
+    if (!this.useSubrequests(1)) return null;
     try {
-      // What If articles update very slowly, so we can use a simple incremental approach
-      // Starting from a known recent ID (162 as of Sep 2025), probe forward
-      const knownLatestId = 162;
-      
-      // Try the next few IDs to see if there's a new article
-      for (let probe = knownLatestId; probe <= knownLatestId + 10; probe++) {
-        try {
-          const resp = await fetch(`https://what-if.xkcd.com/${probe}/`, {
-            method: 'HEAD', // Use HEAD to reduce data transfer
-            signal: AbortSignal.timeout(5000)
-          });
-          
-          if (!resp.ok && probe === knownLatestId) {
-            // If even the known ID fails, something is wrong
-            throw new Error(`Known ID ${knownLatestId} returned ${resp.status}`);
-          }
-          
-          if (!resp.ok) {
-            // We've gone past the last article, return previous ID
-            return probe - 1;
-          }
-        } catch (error) {
-          if ((error as Error).message.includes('Known ID')) {
-            throw error;
-          }
-          // Timeout or other error, assume we've reached the end
-          return probe - 1;
-        }
-      }
-      
-      // If we got here, return the last checked ID
-      return knownLatestId + 10;
+      const response = await fetch(WHAT_IF_ARCHIVE_URL, { signal: AbortSignal.timeout(10000) });
+      if (!response.ok) throw new Error(`Archive returned ${response.status}`);
+      const entries = parseWhatIfArchive(await response.text());
+      if (entries.length === 0) throw new Error('No articles found on the archive page');
+      return entries;
     } catch (error) {
-      await this.recordError('FETCH_ERROR', `Failed to get latest What If ID: ${error}`);
-      throw error;
+      await this.recordError('FETCH_ERROR', `Failed to get What If archive: ${error}`);
+      return null;
     }
   }
 
+  /**
+   * Fallback when the archive is unavailable: articles after the last known one
+   * Probing stops at the first 404; any other failure is an error, not the end of the articles
+   */
+  private async probeNewIds(lastKnownId: number): Promise<number[]> {
+    const ids: number[] = [];
+    for (let probe = lastKnownId + 1; probe <= lastKnownId + MAX_PROBES && this.useSubrequests(1); probe++) {
+      const response = await fetch(getWhatIfUrl(probe), { method: 'HEAD', signal: AbortSignal.timeout(5000) });
+      if (response.status === 404) break;
+      if (!response.ok) throw new Error(`Probing What If article ${probe} returned ${response.status}`);
+      ids.push(probe);
+    }
+    return ids;
+  }
 
   private async getWhatIfData(articleId: number): Promise<WhatIfArticleData | null> {
     try {
@@ -214,27 +290,60 @@ export class WhatIfCrawler extends BaseCrawler {
       
       if (!response.ok) return null;
       const html = await response.text();
-      return await this.extractWhatIfContent(html, articleId);
+      return parseWhatIfArticle(html, articleId);
     } catch (error) {
       await this.recordError('FETCH_ERROR', `Failed to get What If article ${articleId}: ${error}`);
       return null; // Return null instead of throwing to continue with other articles
     }
   }
 
+  /**
+   * Catalog an article's archive thumbnail and illustrations with their probed sizes
+   * Without enough subrequests left for the probes, the article is left uncataloged for the backfill.
+   * Failures are logged only: the article itself is stored, and the catalog is retried by the backfill
+   * @returns false if the catalog was left for a later run
+   */
+  private async storeImages(whatIf: Pick<WhatIf, 'id' | 'images'>, thumbnail: string): Promise<boolean> {
+    const images: Omit<WhatIfImageRecord, 'width' | 'height'>[] = [
+      { kind: 'thumbnail', src: thumbnail, title: '' },
+      ...(whatIf.images || []).map(image => ({ kind: 'illustration' as const, ...image }))
+    ];
+    const probed = images.slice(0, MAX_IMAGE_PROBES);
+    if (!this.useSubrequests(probed.length)) return false;
+
+    try {
+      const dimensions = await batchGetImageDimensions(probed.map(({ src }) => src), IMAGE_PROBE_CONCURRENCY);
+      await this.db.replaceWhatIfImages(whatIf.id, images.map((image, index) => ({
+        ...image,
+        width: dimensions[index]?.width ?? null,
+        height: dimensions[index]?.height ?? null
+      })));
+    } catch (error) {
+      console.warn(`Failed to store images of What If article ${whatIf.id}: ${error}`);
+    }
+    return true;
+  }
+
   private transformWhatIfData(data: WhatIfArticleData, articleId: number): Omit<WhatIf, 'created_at' | 'updated_at'> {
     return {
       id: articleId,
       title: data.title || '',
-      url: data.url || `https://what-if.xkcd.com/${articleId}/`,
-      date: data.date || ''
+      url: data.url || getWhatIfUrl(articleId),
+      date: data.date || '',
+      question: data.question,
+      asker: data.asker,
+      answer: data.answer,
+      images: data.images,
+      footnotes: data.footnotes
     };
   }
 
   async getStatus(): Promise<CrawlStatus> {
-    // Simplified status - no longer tracking tasks in database
+    // Simplified status - no longer tracking tasks in database; the last run is the last archive check
+    const state = await this.getState();
     return {
       is_running: false,
-      last_run: undefined,
+      last_run: state ? new Date(state.checkedAt) : undefined,
       next_run: undefined,
       total_tasks: 0,
       completed_tasks: 0,
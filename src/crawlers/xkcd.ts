@@ -5,6 +5,7 @@ import { BaseCrawler } from './base';
 import { CrawlResult, CrawlStatus, XkcdComicData } from './types';
 import { Comic } from '../types';
 import { sendNewComicNotification } from '../utils/lambda-fcm';
+import { indexComic } from '../search/related';
 
 export class XkcdCrawler extends BaseCrawler {
   constructor(db: Database, env?: any) {
@@ -101,6 +102,15 @@ export class XkcdCrawler extends BaseCrawler {
     }
   }
 
+  // The comic is stored either way; a missing index entry only drops it from related comics
+  private async indexRelated(comic: Omit<Comic, 'created_at' | 'updated_at'>): Promise<void> {
+    try {
+      await indexComic(this.db, comic);
+    } catch (error) {
+      console.warn(`Failed to index related terms of comic ${comic.id}:`, error);
+    }
+  }
+
   private async crawlBatch(startId: number, endId: number): Promise<{
     processed: number;
     added: number;
@@ -127,11 +137,13 @@ export class XkcdCrawler extends BaseCrawler {
         if (existingComic) {
           // Update existing comic
           await this.db.insertComic(comic);
+          await this.indexRelated(comic);
           updated++;
           console.log(`Updated comic ${comicId}: ${comic.title}`);
         } else {
           // Add new comic
           await this.db.insertComic(comic);
+          await this.indexRelated(comic);
           added++;
           console.log(`Added comic ${comicId}: ${comic.title}`);
           
@@ -0,0 +1,86 @@
+/**
+ * Comic of the day
+ *
+ * Every UTC day gets one pseudo-random comic per locale, seeded by the date.
+ * The pick is stored in daily_comics the first time it is asked for, so all
+ * clients see the same comic even if the archive changes during the day, and
+ * comics picked within the no-repeat window are skipped.
+ */
+
+import type { Database } from '../database';
+import { LikeLocale } from '../types';
+import { formatDay } from '../likes/ranking';
+import { mergeIdRanges } from '../progress/ranges';
+import { createRandom } from '../utils/random';
+import { sendToTopicViaLambda } from '../utils/lambda-fcm';
+
+// Days a comic of the day is not picked again; override with the DAILY_NO_REPEAT_DAYS var
+export const DAILY_NO_REPEAT_DAYS = 365;
+
+function getNoRepeatDays(env: any): number {
+  const days = parseInt(env?.DAILY_NO_REPEAT_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DAILY_NO_REPEAT_DAYS;
+}
+
+/**
+ * Number of the comic of the day, or null when no comic (translated into `locale`) is stored
+ * @param day - UTC day, YYYY-MM-DD
+ * @param locale - '' for the original comics, otherwise only translated comics are picked
+ */
+export async function getDailyComicId(db: Database, env: any, day: string, locale: LikeLocale = ''): Promise<number | null> {
+  const stored = await db.getDailyComicId(day, locale);
+  if (stored !== null) return stored;
+
+  const noRepeatDays = getNoRepeatDays(env);
+  const recent = noRepeatDays > 0
+    ? await db.getDailyComicIdsSince(locale, formatDay(new Date(`${day}T00:00:00Z`), noRepeatDays))
+    : [];
+  const language = locale || undefined;
+  const seed = locale ? `${day}:${locale}` : day;
+
+  let [comic] = await db.getRandomComics(1, createRandom(seed), { language, exclude: mergeIdRanges(recent.map(id => [id, id])) }, []);
+  // Window longer than the archive: repeats are unavoidable
+  if (!comic && recent.length > 0) {
+    [comic] = await db.getRandomComics(1, createRandom(seed), { language }, []);
+  }
+  if (!comic) return null;
+
+  // A concurrent request may have stored the day first; everyone gets the stored pick
+  return db.saveDailyComicId(day, locale, comic.id);
+}
+
+/**
+ * Pick today's comic and push it to the DAILY_FCM_TOPIC topic when configured
+ * Runs from the daily cron; the push follows FCM_ENABLED and is skipped in FCM_TEST_MODE
+ */
+export async function runDailyComic(db: Database, env: any, now: Date = new Date()): Promise<void> {
+  const day = formatDay(now);
+  const comicId = await getDailyComicId(db, env, day);
+  if (comicId === null) return;
+
+  const topic = env?.DAILY_FCM_TOPIC;
+  if (!topic || !isFlagSet(env.FCM_ENABLED) || !env.LAMBDA_FCM_URL) return;
+  if (isFlagSet(env.FCM_TEST_MODE)) {
+    console.log(`Skipping comic of the day push for ${day} (FCM test mode)`);
+    return;
+  }
+
+  const comic = await db.getComic(comicId);
+  if (!comic) return;
+  const { id, ...fields } = comic;
+  await sendToTopicViaLambda(env.LAMBDA_FCM_URL, env.LAMBDA_API_KEY || null, topic, {
+    data: { xkcd: JSON.stringify({ num: id, ...fields }), daily: day },
+    android: {
+      collapse_key: 'daily_comic',
+      priority: 'normal',
+      ttl: 24 * 60 * 60 * 1000, // 1 day in milliseconds
+      fcm_options: { analytics_label: `daily-${day}` }
+    },
+    fcm_options: { analytics_label: `daily-${day}` }
+  });
+  console.log(`Sent comic of the day ${comicId} for ${day} to topic ${topic}`);
+}
+
+function isFlagSet(value: string | undefined): boolean {
+  return value === 'true' || value === '1' || value === 'TRUE';
+}
@@ -1,4 +1,17 @@
-import { Comic, WhatIf, LocalizedComic, LikeCount, CrawlTask, SupportedLanguage } from './types';
+import { Comic, ComicDateFilter, ComicSearchResult, WhatIf, LocalizedComic, LocalizedComicSearchResult, LikeChange, LikeCount, LikeDaily, LikeLocale, LikeTotals, LikeTrending, Favorite, ReadProgress, IdRange, RandomFilter, TermWeight, WhatIfImageRecord, WhatIfSearchResult, CrawlTask, SupportedLanguage } from './types';
+import { CursorOrder, CursorPage } from './http/cursor';
+import { COMIC_FIELDS, ComicField } from './http/fields';
+import { htmlToText } from './utils/html-sanitize';
+import { buildFtsQuery, buildSnippet, parseSearchTerms, termsToFtsQuery, TRIGRAM_MIN_LENGTH, usesTrigramIndex } from './search/fts';
+
+// Extra SQL conditions (starting with ' AND ') plus their bind parameters
+interface SqlFilter {
+  sql: string;
+  params: any[];
+}
+
+// A client's like_events row, with ?1-?4 bound to comic_id, comic_type, locale and client_hash
+const LIKE_EVENT_WHERE = 'client_hash = ?4 AND comic_id = ?1 AND comic_type = ?2 AND locale = ?3';
 
 export class Database {
   public db: D1Database;
@@ -10,10 +23,20 @@ export class Database {
   // Fields to select for comic queries (exclude unused fields: news, transcript, link, safe_title, created_at, updated_at)
   private readonly COMIC_SELECT_FIELDS = 'id, title, alt, img, year, month, day, width, height';
 
+  /**
+   * Build the comic column list from a client field selection
+   * Falls back to COMIC_SELECT_FIELDS; only whitelisted columns ever reach the SQL
+   */
+  private comicColumns(fields?: readonly ComicField[]): string {
+    if (!fields) return this.COMIC_SELECT_FIELDS;
+    const columns = COMIC_FIELDS.filter(field => field === 'id' || fields.includes(field));
+    return columns.join(', ');
+  }
+
   // Comic related operations
-  async getComic(id: number): Promise<Comic | null> {
+  async getComic(id: number, fields?: readonly ComicField[]): Promise<Comic | null> {
     const result = await this.db
-      .prepare(`SELECT ${this.COMIC_SELECT_FIELDS} FROM comics WHERE id = ?`)
+      .prepare(`SELECT ${this.comicColumns(fields)} FROM comics WHERE id = ?`)
       .bind(id)
       .first();
     return result as Comic | null;
@@ -36,9 +59,10 @@ export class Database {
     return result.results as unknown as Comic[];
   }
 
-  async getComicsWithPagination(start: number = 0, size: number = 100, reversed: boolean = false, includeTotal: boolean = false): Promise<{ comics: Comic[], hasMore: boolean, total: number }> {
+  async getComicsWithPagination(start: number = 0, size: number = 100, reversed: boolean = false, includeTotal: boolean = false, dateFilter?: ComicDateFilter, fields?: readonly ComicField[]): Promise<{ comics: Comic[], hasMore: boolean, total: number }> {
     const order = reversed ? 'DESC' : 'ASC';
     const operator = reversed ? '<=' : '>=';
+    const filter = this.buildDateFilter(dateFilter);
     
     // Get total count only if requested (avoid expensive COUNT query when not needed)
     let total = -1;
@@ -52,8 +76,8 @@ export class Database {
     // Optimization for size = 1: query only the needed record, skip hasMore check
     if (size === 1) {
       const result = await this.db
-        .prepare(`SELECT ${this.COMIC_SELECT_FIELDS} FROM comics WHERE id ${operator} ? ORDER BY id ${order} LIMIT 1`)
-        .bind(start)
+        .prepare(`SELECT ${this.comicColumns(fields)} FROM comics WHERE id ${operator} ?${filter.sql} ORDER BY id ${order} LIMIT 1`)
+        .bind(start, ...filter.params)
         .all();
       
       const comics = result.results as unknown as Comic[];
@@ -64,8 +88,8 @@ export class Database {
     
     // For size > 1, use the original approach (query size + 1 records)
     const result = await this.db
-      .prepare(`SELECT ${this.COMIC_SELECT_FIELDS} FROM comics WHERE id ${operator} ? ORDER BY id ${order} LIMIT ?`)
-      .bind(start, size + 1)
+      .prepare(`SELECT ${this.comicColumns(fields)} FROM comics WHERE id ${operator} ?${filter.sql} ORDER BY id ${order} LIMIT ?`)
+      .bind(start, ...filter.params, size + 1)
       .all();
     
     const comics = result.results as unknown as Comic[];
@@ -79,49 +103,314 @@ export class Database {
     return { comics, hasMore, total };
   }
 
-  async insertComic(comic: Omit<Comic, 'created_at' | 'updated_at'>): Promise<void> {
-    await this.db
+  /**
+   * Keyset page over any table with an integer primary key `id`
+   * Rows are returned in display order; hasNext/hasPrev tell whether rows exist beyond either end of the page
+   *
+   * @param anchorId - Exclusive bound to page from, or null to start at the beginning of the order
+   * @param filter - Extra conditions applied to both the page and the lookahead checks
+   */
+  private async getKeysetPage<T extends { id: number }>(
+    table: string,
+    fields: string,
+    page: CursorPage,
+    filter: SqlFilter = { sql: '', params: [] }
+  ): Promise<{ rows: T[], hasNext: boolean, hasPrev: boolean }> {
+    // Paging backward walks the table against the display order, then flips the rows back
+    const scanDesc = (page.order === 'desc') !== (page.direction === 'prev');
+    const scanOrder = scanDesc ? 'DESC' : 'ASC';
+    const anchor = page.anchorId === null ? '1 = 1' : `id ${scanDesc ? '<' : '>'} ?`;
+    const params = page.anchorId === null ? [...filter.params, page.size + 1] : [page.anchorId, ...filter.params, page.size + 1];
+
+    const result = await this.db
+      .prepare(`SELECT ${fields} FROM ${table} WHERE ${anchor}${filter.sql} ORDER BY id ${scanOrder} LIMIT ?`)
+      .bind(...params)
+      .all();
+
+    const rows = result.results as unknown as T[];
+    const hasMoreInScan = rows.length > page.size;
+    if (hasMoreInScan) {
+      rows.pop();
+    }
+
+    // Check the other side of the page with a single primary key lookup
+    let hasMoreBehind = false;
+    if (rows.length > 0) {
+      const behind = await this.db
+        .prepare(`SELECT id FROM ${table} WHERE id ${scanDesc ? '>' : '<'} ?${filter.sql} LIMIT 1`)
+        .bind(rows[0].id, ...filter.params)
+        .first();
+      hasMoreBehind = behind !== null;
+    }
+
+    if (page.direction === 'prev') {
+      rows.reverse();
+      return { rows, hasNext: hasMoreBehind, hasPrev: hasMoreInScan };
+    }
+    return { rows, hasNext: hasMoreInScan, hasPrev: hasMoreBehind };
+  }
+
+  async getComicsByCursor(page: CursorPage, dateFilter?: ComicDateFilter, fields?: readonly ComicField[]): Promise<{ comics: Comic[], hasNext: boolean, hasPrev: boolean }> {
+    const { rows, hasNext, hasPrev } = await this.getKeysetPage<Comic>('comics', this.comicColumns(fields), page, this.buildDateFilter(dateFilter));
+    return { comics: rows, hasNext, hasPrev };
+  }
+
+  /**
+   * Fetch many comics in one query, optionally overlaying translated title/alt
+   * ids are passed as a single JSON parameter to stay clear of D1's bound parameter limit
+   * Results are unordered; callers restore the requested order
+   */
+  async getComicsByIds(ids: number[], language?: SupportedLanguage): Promise<(Comic & { translated?: boolean })[]> {
+    if (ids.length === 0) return [];
+
+    if (!language) {
+      const result = await this.db
+        .prepare(`SELECT ${this.COMIC_SELECT_FIELDS} FROM comics WHERE id IN (SELECT value FROM json_each(?))`)
+        .bind(JSON.stringify(ids))
+        .all();
+      return result.results as unknown as Comic[];
+    }
+
+    const tableName = this.getLocalizedTableName(language);
+    const result = await this.db
       .prepare(`
-        INSERT OR REPLACE INTO comics 
-        (id, title, alt, img, transcript, year, month, day, link, news, safe_title, width, height)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        SELECT ${this.prefixFields('c', this.COMIC_SELECT_FIELDS)},
+          l.title as localized_title, l.alt as localized_alt
+        FROM comics c
+        LEFT JOIN ${tableName} l ON l.id = c.id
+        WHERE c.id IN (SELECT value FROM json_each(?))
       `)
-      .bind(
-        comic.id,
-        comic.title || '',
-        comic.alt || '',
-        comic.img || '',
-        comic.transcript || '',
-        comic.year || 0,
-        comic.month || 0,
-        comic.day || 0,
-        comic.link || '',
-        comic.news || '',
-        comic.safe_title || '',
-        comic.width || null,
-        comic.height || null
-      )
-      .run();
+      .bind(JSON.stringify(ids))
+      .all();
+
+    return (result.results as any[]).map(({ localized_title, localized_alt, ...comic }) => {
+      if (localized_title === null || localized_title === undefined) {
+        return { ...comic, translated: false } as Comic & { translated: boolean };
+      }
+      return { ...comic, title: localized_title, alt: localized_alt ?? comic.alt, translated: true } as Comic & { translated: boolean };
+    });
+  }
+
+  /**
+   * Check whether any comic exists before (or after, when descending) the given id
+   * Used to decide whether a legacy start-based page has a previous page
+   */
+  async hasRowsBefore(table: 'comics' | 'what_if', id: number, order: CursorOrder, dateFilter?: ComicDateFilter): Promise<boolean> {
+    const filter = table === 'comics' ? this.buildDateFilter(dateFilter) : { sql: '', params: [] };
+    const result = await this.db
+      .prepare(`SELECT id FROM ${table} WHERE id ${order === 'desc' ? '>' : '<'} ?${filter.sql} LIMIT 1`)
+      .bind(id, ...filter.params)
+      .first();
+    return result !== null;
+  }
+
+  // Date related operations (backed by idx_comics_date / idx_comics_month_day)
+  private buildDateFilter(dateFilter?: ComicDateFilter): SqlFilter {
+    if (!dateFilter) return { sql: '', params: [] };
+    const conditions = ['year = ?'];
+    const params: any[] = [dateFilter.year];
+    if (dateFilter.month !== undefined) {
+      conditions.push('month = ?');
+      params.push(dateFilter.month);
+    }
+    if (dateFilter.day !== undefined) {
+      conditions.push('day = ?');
+      params.push(dateFilter.day);
+    }
+    return { sql: ` AND ${conditions.join(' AND ')}`, params };
+  }
+
+  /**
+   * Comics published on a calendar day in years before `beforeYear`, newest first
+   */
+  async getComicsOnThisDay(month: number, day: number, beforeYear: number): Promise<Comic[]> {
+    const result = await this.db
+      .prepare(`SELECT ${this.COMIC_SELECT_FIELDS} FROM comics WHERE month = ? AND day = ? AND year < ? ORDER BY year DESC, id DESC`)
+      .bind(month, day, beforeYear)
+      .all();
+    return result.results as unknown as Comic[];
   }
 
+  /**
+   * Number of comics per year/month, optionally restricted to one year
+   */
+  async getComicDateHistogram(year?: number): Promise<{ year: number, month: number, count: number }[]> {
+    const where = year !== undefined ? 'WHERE year = ?' : 'WHERE year > 0';
+    const statement = this.db.prepare(`
+      SELECT year, month, COUNT(id) as count
+      FROM comics
+      ${where}
+      GROUP BY year, month
+      ORDER BY year, month
+    `);
+    const result = await (year !== undefined ? statement.bind(year) : statement).all();
+    return result.results as unknown as { year: number, month: number, count: number }[];
+  }
+
+  async insertComic(comic: Omit<Comic, 'created_at' | 'updated_at'>): Promise<void> {
+    // Write the row and refresh its search index entry atomically
+    await this.db.batch([
+      this.db
+        .prepare(`
+          INSERT OR REPLACE INTO comics 
+          (id, title, alt, img, transcript, year, month, day, link, news, safe_title, width, height)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .bind(
+          comic.id,
+          comic.title || '',
+          comic.alt || '',
+          comic.img || '',
+          comic.transcript || '',
+          comic.year || 0,
+          comic.month || 0,
+          comic.day || 0,
+          comic.link || '',
+          comic.news || '',
+          comic.safe_title || '',
+          comic.width || null,
+          comic.height || null
+        ),
+      this.db.prepare('DELETE FROM comics_fts WHERE rowid = ?').bind(comic.id),
+      this.db
+        .prepare('INSERT INTO comics_fts (rowid, title, safe_title, alt, transcript) VALUES (?, ?, ?, ?, ?)')
+        .bind(comic.id, comic.title || '', comic.safe_title || '', comic.alt || '', comic.transcript || '')
+    ]);
+  }
 
-  // Fields to select for what_if queries (exclude unused fields: question, answer, created_at, updated_at)
+  /**
+   * Rebuild the comics full-text index from the comics table
+   * Needed once after creating comics_fts on an existing database
+   */
+  async rebuildComicSearchIndex(): Promise<number> {
+    await this.db.batch([
+      this.db.prepare('DELETE FROM comics_fts'),
+      this.db.prepare(`
+        INSERT INTO comics_fts (rowid, title, safe_title, alt, transcript)
+        SELECT id, title, COALESCE(safe_title, ''), COALESCE(alt, ''), COALESCE(transcript, '') FROM comics
+      `)
+    ]);
+    const result = await this.db.prepare('SELECT COUNT(*) as count FROM comics_fts').first();
+    return (result as any)?.count || 0;
+  }
+
+  // Fields to select for what_if queries (article content is only selected with ?full=1)
   private readonly WHATIF_SELECT_FIELDS = 'id, title, url, date';
+  private readonly WHATIF_CONTENT_FIELDS = 'question, asker, answer, images, footnotes';
 
   async insertWhatIf(whatIf: Omit<WhatIf, 'created_at' | 'updated_at'>): Promise<void> {
-    await this.db
-      .prepare(`
-        INSERT OR REPLACE INTO what_if 
-        (id, title, url, date)
-        VALUES (?, ?, ?, ?)
-      `)
+    // Write the row and refresh its search index entry atomically
+    await this.db.batch([
+      this.db
+        .prepare(`
+          INSERT OR REPLACE INTO what_if 
+          (id, title, url, date, question, asker, answer, images, footnotes)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .bind(
+          whatIf.id,
+          whatIf.title || '',
+          whatIf.url || '',
+          whatIf.date || '',
+          whatIf.question ?? null,
+          whatIf.asker ?? null,
+          whatIf.answer ?? null,
+          whatIf.images ? JSON.stringify(whatIf.images) : null,
+          whatIf.footnotes ? JSON.stringify(whatIf.footnotes) : null
+        ),
+      this.db.prepare('DELETE FROM what_if_fts WHERE rowid = ?').bind(whatIf.id),
+      this.whatIfSearchIndexStatement(whatIf)
+    ]);
+  }
+
+  // The index holds plain text; tags in the answer and footnotes would match as words
+  private whatIfSearchIndexStatement(whatIf: Pick<WhatIf, 'id' | 'title' | 'question' | 'answer' | 'footnotes'>): D1PreparedStatement {
+    return this.db
+      .prepare('INSERT INTO what_if_fts (rowid, title, question, answer, footnotes) VALUES (?, ?, ?, ?, ?)')
       .bind(
         whatIf.id,
         whatIf.title || '',
-        whatIf.url || '',
-        whatIf.date || ''
-      )
-      .run();
+        whatIf.question || '',
+        htmlToText(whatIf.answer || ''),
+        (whatIf.footnotes || []).map(({ html }) => htmlToText(html)).join('\n')
+      );
+  }
+
+  /**
+   * Rebuild the What If full-text index from the what_if table
+   * Needed once after creating what_if_fts on an existing database
+   */
+  async rebuildWhatIfSearchIndex(): Promise<number> {
+    const result = await this.db
+      .prepare(`SELECT id, title, ${this.WHATIF_CONTENT_FIELDS} FROM what_if`)
+      .all();
+    const whatIfs = result.results.map(row => this.parseWhatIfContent(row));
+    await this.db.batch([
+      this.db.prepare('DELETE FROM what_if_fts'),
+      ...whatIfs.map(whatIf => this.whatIfSearchIndexStatement(whatIf))
+    ]);
+    return whatIfs.length;
+  }
+
+  // images and footnotes are stored as JSON; articles crawled before content was stored have none
+  private parseWhatIfContent(row: any): WhatIf {
+    return {
+      ...row,
+      question: row.question ?? '',
+      asker: row.asker ?? '',
+      answer: row.answer ?? '',
+      images: row.images ? JSON.parse(row.images) : [],
+      footnotes: row.footnotes ? JSON.parse(row.footnotes) : []
+    };
+  }
+
+  async getWhatIfIds(): Promise<number[]> {
+    const result = await this.db.prepare('SELECT id FROM what_if ORDER BY id').all<{ id: number }>();
+    return result.results.map(row => row.id);
+  }
+
+  /**
+   * Stored articles whose content or image catalog has not been crawled yet
+   * Ids after `afterId` come first and the list wraps around, so successive calls rotate
+   * through all of them and articles that keep failing don't hold up the others
+   */
+  async getIncompleteWhatIfIds(limit: number, afterId: number = 0): Promise<number[]> {
+    const result = await this.db
+      .prepare(`
+        SELECT id FROM what_if
+        WHERE answer IS NULL
+          OR NOT EXISTS (SELECT 1 FROM what_if_images WHERE article_id = what_if.id)
+        ORDER BY id <= ?, id
+        LIMIT ?
+      `)
+      .bind(afterId, limit)
+      .all<{ id: number }>();
+    return result.results.map(row => row.id);
+  }
+
+  /**
+   * Replace the image catalog of an article (images in display order)
+   */
+  async replaceWhatIfImages(articleId: number, images: WhatIfImageRecord[]): Promise<void> {
+    await this.db.batch([
+      this.db.prepare('DELETE FROM what_if_images WHERE article_id = ?').bind(articleId),
+      this.db
+        .prepare(`
+          INSERT INTO what_if_images (article_id, position, kind, src, title, width, height)
+          SELECT ?, key, json_extract(value, '$.kind'), json_extract(value, '$.src'), json_extract(value, '$.title'),
+            json_extract(value, '$.width'), json_extract(value, '$.height')
+          FROM json_each(?)
+        `)
+        .bind(articleId, JSON.stringify(images))
+    ]);
+  }
+
+  async getWhatIfImages(articleId: number): Promise<WhatIfImageRecord[]> {
+    const result = await this.db
+      .prepare('SELECT kind, src, title, width, height FROM what_if_images WHERE article_id = ? ORDER BY position')
+      .bind(articleId)
+      .all<WhatIfImageRecord>();
+    return result.results;
   }
 
   // Localized comics related operations
@@ -149,6 +438,12 @@ export class Database {
     return result.results as unknown as LocalizedComic[];
   }
 
+  async getLocalizedComicsByCursor(language: SupportedLanguage, page: CursorPage): Promise<{ comics: LocalizedComic[], hasNext: boolean, hasPrev: boolean }> {
+    const tableName = this.getLocalizedTableName(language);
+    const { rows, hasNext, hasPrev } = await this.getKeysetPage<LocalizedComic>(tableName, '*', page);
+    return { comics: rows, hasNext, hasPrev };
+  }
+
   async insertLocalizedComic(comic: Omit<LocalizedComic, 'created_at' | 'updated_at'>, language: SupportedLanguage): Promise<void> {
     const tableName = this.getLocalizedTableName(language);
     await this.db
@@ -168,6 +463,86 @@ export class Database {
       .run();
   }
 
+  /**
+   * Search a locale's translated title/alt/transcript
+   * Chinese locales use a trigram index, which can't match terms shorter than 3 characters;
+   * those terms fall back to LIKE over the index content
+   */
+  async searchLocalizedComics(language: SupportedLanguage, keyword: string, limit: number = 20, offset: number = 0): Promise<{ comics: LocalizedComicSearchResult[], hasMore: boolean }> {
+    const tableName = this.getLocalizedTableName(language);
+    const ftsTable = `${tableName}_fts`;
+    const trigram = usesTrigramIndex(language);
+
+    const terms = parseSearchTerms(keyword);
+    // Trigram matching is substring matching already, so prefix markers are dropped
+    const matchTerms = trigram
+      ? terms.filter(term => term.text.length >= TRIGRAM_MIN_LENGTH).map(term => ({ ...term, prefix: false }))
+      : terms;
+    const likeTerms = trigram ? terms.filter(term => term.text.length < TRIGRAM_MIN_LENGTH) : [];
+    const matchQuery = termsToFtsQuery(matchTerms);
+    if (!matchQuery && likeTerms.length === 0) {
+      return { comics: [], hasMore: false };
+    }
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (matchQuery) {
+      conditions.push(`${ftsTable} MATCH ?`);
+      params.push(matchQuery);
+    }
+    for (const term of likeTerms) {
+      conditions.push(`(${ftsTable}.title LIKE ? OR ${ftsTable}.alt LIKE ? OR ${ftsTable}.transcript LIKE ?)`);
+      const pattern = `%${term.text}%`;
+      params.push(pattern, pattern, pattern);
+    }
+
+    const result = await this.db
+      .prepare(`
+        SELECT l.id, l.title, l.alt, l.img, l.transcript, l.source_url, c.title as original_title
+          ${matchQuery ? `, snippet(${ftsTable}, -1, '<mark>', '</mark>', '…', 16) as snippet` : ''}
+        FROM ${ftsTable}
+        JOIN ${tableName} l ON l.id = ${ftsTable}.rowid
+        LEFT JOIN comics c ON c.id = l.id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY ${matchQuery ? `bm25(${ftsTable}, 10.0, 3.0, 1.0), ` : ''}l.id DESC
+        LIMIT ? OFFSET ?
+      `)
+      .bind(...params, limit + 1, offset)
+      .all();
+
+    const comics = result.results as unknown as LocalizedComicSearchResult[];
+    const hasMore = comics.length > limit;
+    if (hasMore) {
+      comics.pop();
+    }
+
+    if (!matchQuery) {
+      for (const comic of comics) {
+        const text = [comic.title, comic.alt, comic.transcript].find(field => field && likeTerms.some(term => field.includes(term.text))) || comic.title;
+        comic.snippet = buildSnippet(text, likeTerms);
+      }
+    }
+
+    return { comics, hasMore };
+  }
+
+  /**
+   * Rebuild a locale's full-text index from its table
+   * Needed once after creating the index on an existing database (the triggers handle new writes)
+   */
+  async rebuildLocalizedSearchIndex(language: SupportedLanguage): Promise<number> {
+    const tableName = this.getLocalizedTableName(language);
+    await this.db.batch([
+      this.db.prepare(`DELETE FROM ${tableName}_fts`),
+      this.db.prepare(`
+        INSERT INTO ${tableName}_fts (rowid, title, alt, transcript)
+        SELECT id, title, COALESCE(alt, ''), COALESCE(transcript, '') FROM ${tableName}
+      `)
+    ]);
+    const result = await this.db.prepare(`SELECT COUNT(*) as count FROM ${tableName}_fts`).first();
+    return (result as any)?.count || 0;
+  }
+
   async getAvailableLanguages(comicId: number): Promise<SupportedLanguage[]> {
     const languages: SupportedLanguage[] = ['zh-cn', 'zh-tw', 'es', 'fr', 'de', 'ru'];
     const availableLanguages: SupportedLanguage[] = [];
@@ -188,138 +563,705 @@ export class Database {
   }
 
   // Like count related operations
-  async incrementLikeCount(comicId: number, comicType: 'comic' | 'what_if'): Promise<number> {
-    // Use UPSERT approach - try INSERT first, then UPDATE if it fails
-    try {
-      // Try to insert new record
-      const insertResult = await this.db
+  // Every like operation takes an optional locale ('' = the original English comic);
+  // each locale of an item is counted and ranked separately
+
+  /**
+   * Add `delta` to an item's like count in a single statement (never below 0)
+   * @returns The new count
+   */
+  async incrementLikeCount(comicId: number, comicType: 'comic' | 'what_if', delta: number = 1, locale: LikeLocale = ''): Promise<number> {
+    const row = await this.likeCountStatement(comicId, comicType, locale, delta).first<{ count: number }>();
+    return row?.count || 0;
+  }
+
+  async getLikeCount(comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale = ''): Promise<number> {
+    const result = await this.db
+      .prepare('SELECT count FROM like_counts WHERE comic_id = ? AND comic_type = ? AND locale = ?')
+      .bind(comicId, comicType, locale)
+      .first();
+    return (result as any)?.count || 0;
+  }
+
+  /**
+   * Likes of an item in every locale except `locale`
+   * Added to that locale's count to get the combined total per num
+   */
+  async getLikeCountExcept(comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale): Promise<number> {
+    const result = await this.db
+      .prepare('SELECT COALESCE(SUM(count), 0) as count FROM like_counts WHERE comic_id = ? AND comic_type = ? AND locale != ?')
+      .bind(comicId, comicType, locale)
+      .first();
+    return (result as any)?.count || 0;
+  }
+
+  private likeCountStatement(comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale, delta: number): D1PreparedStatement {
+    return this.db
+      .prepare(`
+        INSERT INTO like_counts (comic_id, comic_type, locale, count)
+        VALUES (?1, ?2, ?3, MAX(?4, 0))
+        ON CONFLICT(comic_id, comic_type, locale) DO UPDATE
+        SET count = MAX(like_counts.count + ?4, 0), updated_at = CURRENT_TIMESTAMP
+        RETURNING count
+      `)
+      .bind(comicId, comicType, locale, delta);
+  }
+
+  /**
+   * Whether a client currently likes an item
+   */
+  async hasLikeEvent(clientHash: string, comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale = ''): Promise<boolean> {
+    const row = await this.db
+      .prepare('SELECT 1 FROM like_events WHERE client_hash = ? AND comic_id = ? AND comic_type = ? AND locale = ?')
+      .bind(clientHash, comicId, comicType, locale)
+      .first();
+    return row !== null;
+  }
+
+  /**
+   * Apply likes and unlikes of one item in a single batch
+   * Each change writes its like_events row together with the like_counts / like_daily
+   * update, and only moves the counts if the row actually changes, so the aggregates can't
+   * drift from like_events and a repeated change is a no-op
+   * @returns Whether each change took effect, and the item's like count afterwards
+   */
+  async applyLikeChanges(comicId: number, comicType: 'comic' | 'what_if', changes: LikeChange[], locale: LikeLocale = ''): Promise<{ changed: boolean[], count: number }> {
+    const results = await this.db.batch<{ count: number }>([
+      ...changes.flatMap(change => change.liked
+        ? this.likeStatements(comicId, comicType, locale, change)
+        : this.unlikeStatements(comicId, comicType, locale, change)),
+      this.db
+        .prepare('SELECT count FROM like_counts WHERE comic_id = ? AND comic_type = ? AND locale = ?')
+        .bind(comicId, comicType, locale)
+    ]);
+    // The like_events statement is the last of each change's three
+    const changed = changes.map((change, index) => results[index * 3 + 2].meta.changes > 0);
+    return { changed, count: results[results.length - 1].results[0]?.count || 0 };
+  }
+
+  private likeStatements(comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale, { clientHash, time }: LikeChange): D1PreparedStatement[] {
+    // Same format as CURRENT_TIMESTAMP, so date(created_at) gives the UTC day
+    const createdAt = new Date(time).toISOString().slice(0, 19).replace('T', ' ');
+    return [
+      this.db
         .prepare(`
-          INSERT INTO like_counts (comic_id, comic_type, count)
-          VALUES (?, ?, 1)
+          INSERT INTO like_counts (comic_id, comic_type, locale, count)
+          SELECT ?1, ?2, ?3, 1 WHERE NOT EXISTS (SELECT 1 FROM like_events WHERE ${LIKE_EVENT_WHERE})
+          ON CONFLICT(comic_id, comic_type, locale) DO UPDATE
+          SET count = like_counts.count + 1, updated_at = CURRENT_TIMESTAMP
         `)
-        .bind(comicId, comicType)
-        .run();
-      
-      // If insert succeeded, return 1
-      if ((insertResult as any).changes > 0) {
-        return 1;
-      }
-    } catch (error) {
-      // If insert failed (likely due to unique constraint), try to update
-      const updateResult = await this.db
+        .bind(comicId, comicType, locale, clientHash),
+      this.db
         .prepare(`
-          UPDATE like_counts 
-          SET count = count + 1, updated_at = CURRENT_TIMESTAMP 
-          WHERE comic_id = ? AND comic_type = ?
+          INSERT INTO like_daily (comic_id, comic_type, locale, day, count)
+          SELECT ?1, ?2, ?3, date(?5), 1 WHERE NOT EXISTS (SELECT 1 FROM like_events WHERE ${LIKE_EVENT_WHERE})
+          ON CONFLICT(comic_type, locale, day, comic_id) DO UPDATE SET count = like_daily.count + 1
         `)
-        .bind(comicId, comicType)
-        .run();
-    }
+        .bind(comicId, comicType, locale, clientHash, createdAt),
+      this.db
+        .prepare('INSERT OR IGNORE INTO like_events (client_hash, comic_id, comic_type, locale, created_at) VALUES (?4, ?1, ?2, ?3, ?5)')
+        .bind(comicId, comicType, locale, clientHash, createdAt)
+    ];
+  }
 
-    // Return updated count
-    const countResult = await this.db
-      .prepare('SELECT count FROM like_counts WHERE comic_id = ? AND comic_type = ?')
-      .bind(comicId, comicType)
-      .first();
-    
-    return (countResult as any)?.count || 1;
+  // The like is taken off the day it was given
+  private unlikeStatements(comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale, { clientHash }: LikeChange): D1PreparedStatement[] {
+    return [
+      this.db
+        .prepare(`
+          UPDATE like_counts SET count = MAX(count - 1, 0), updated_at = CURRENT_TIMESTAMP
+          WHERE comic_id = ?1 AND comic_type = ?2 AND locale = ?3 AND EXISTS (SELECT 1 FROM like_events WHERE ${LIKE_EVENT_WHERE})
+        `)
+        .bind(comicId, comicType, locale, clientHash),
+      this.db
+        .prepare(`
+          UPDATE like_daily SET count = MAX(count - 1, 0)
+          WHERE comic_id = ?1 AND comic_type = ?2 AND locale = ?3
+            AND day = (SELECT date(created_at) FROM like_events WHERE ${LIKE_EVENT_WHERE})
+        `)
+        .bind(comicId, comicType, locale, clientHash),
+      this.db
+        .prepare(`DELETE FROM like_events WHERE ${LIKE_EVENT_WHERE}`)
+        .bind(comicId, comicType, locale, clientHash)
+    ];
+  }
+
+  /**
+   * Most liked items (ties: newest first) and the number of items with at least one like
+   */
+  async getTopLiked(comicType: 'comic' | 'what_if', limit: number = 10, offset: number = 0, locale: LikeLocale = ''): Promise<{ items: LikeCount[], total: number }> {
+    const [page, counted] = await this.db.batch([
+      this.db
+        .prepare(`
+          SELECT * FROM like_counts 
+          WHERE comic_type = ? AND locale = ? AND count > 0
+          ORDER BY count DESC, comic_id DESC
+          LIMIT ? OFFSET ?
+        `)
+        .bind(comicType, locale, limit, offset),
+      this.db
+        .prepare('SELECT COUNT(*) as total FROM like_counts WHERE comic_type = ? AND locale = ? AND count > 0')
+        .bind(comicType, locale)
+    ]);
+    return { items: page.results as unknown as LikeCount[], total: (counted.results[0] as any)?.total || 0 };
   }
 
-  async getLikeCount(comicId: number, comicType: 'comic' | 'what_if'): Promise<number> {
+  /**
+   * Most liked items counting only likes given on or after `sinceDay` (YYYY-MM-DD, UTC)
+   */
+  async getTopLikedSince(comicType: 'comic' | 'what_if', sinceDay: string, limit: number = 10, offset: number = 0, locale: LikeLocale = ''): Promise<{ items: Omit<LikeDaily, 'day'>[], total: number }> {
+    const [page, counted] = await this.db.batch([
+      this.db
+        .prepare(`
+          SELECT comic_id, comic_type, locale, SUM(count) as count
+          FROM like_daily
+          WHERE comic_type = ? AND locale = ? AND day >= ?
+          GROUP BY comic_id
+          HAVING SUM(count) > 0
+          ORDER BY count DESC, comic_id DESC
+          LIMIT ? OFFSET ?
+        `)
+        .bind(comicType, locale, sinceDay, limit, offset),
+      this.db
+        .prepare(`
+          SELECT COUNT(*) as total FROM (
+            SELECT comic_id FROM like_daily
+            WHERE comic_type = ? AND locale = ? AND day >= ?
+            GROUP BY comic_id
+            HAVING SUM(count) > 0
+          )
+        `)
+        .bind(comicType, locale, sinceDay)
+    ]);
+    return { items: page.results as unknown as Omit<LikeDaily, 'day'>[], total: (counted.results[0] as any)?.total || 0 };
+  }
+
+  async getTrendingLiked(comicType: 'comic' | 'what_if', limit: number = 10, offset: number = 0, locale: LikeLocale = ''): Promise<{ items: LikeTrending[], total: number }> {
+    const [page, counted] = await this.db.batch([
+      this.db
+        .prepare(`
+          SELECT * FROM like_trending
+          WHERE comic_type = ? AND locale = ?
+          ORDER BY score DESC, comic_id DESC
+          LIMIT ? OFFSET ?
+        `)
+        .bind(comicType, locale, limit, offset),
+      this.db
+        .prepare('SELECT COUNT(*) as total FROM like_trending WHERE comic_type = ? AND locale = ?')
+        .bind(comicType, locale)
+    ]);
+    return { items: page.results as unknown as LikeTrending[], total: (counted.results[0] as any)?.total || 0 };
+  }
+
+  /**
+   * Fetch comics with their like count (thumbCount) and the count over all locales (totalThumbCount)
+   * Results are unordered
+   */
+  async getComicsWithLikes(ids: number[]): Promise<(Comic & LikeTotals)[]> {
+    if (ids.length === 0) return [];
     const result = await this.db
-      .prepare('SELECT count FROM like_counts WHERE comic_id = ? AND comic_type = ?')
-      .bind(comicId, comicType)
-      .first();
-    return (result as any)?.count || 0;
+      .prepare(`
+        SELECT ${this.prefixFields('c', this.COMIC_SELECT_FIELDS)},
+          COALESCE(lc.count, 0) as thumbCount, ${this.likeTotalColumn('c.id', 'comic')}
+        FROM comics c
+        LEFT JOIN like_counts lc ON lc.comic_id = c.id AND lc.comic_type = 'comic' AND lc.locale = ''
+        WHERE c.id IN (SELECT value FROM json_each(?))
+      `)
+      .bind(JSON.stringify(ids))
+      .all();
+    return result.results as unknown as (Comic & LikeTotals)[];
   }
 
-  async getTopLiked(comicType: 'comic' | 'what_if', limit: number = 10): Promise<LikeCount[]> {
+  /**
+   * Fetch translations with their like count in that language and the count over all locales
+   * Results are unordered
+   */
+  async getLocalizedComicsWithLikes(ids: number[], language: SupportedLanguage): Promise<(LocalizedComic & LikeTotals)[]> {
+    if (ids.length === 0) return [];
+    const tableName = this.getLocalizedTableName(language);
     const result = await this.db
       .prepare(`
-        SELECT * FROM like_counts 
-        WHERE comic_type = ? 
-        ORDER BY count DESC 
-        LIMIT ?
+        SELECT l.id, l.title, l.alt, l.img, l.source_url,
+          COALESCE(lc.count, 0) as thumbCount, ${this.likeTotalColumn('l.id', 'comic')}
+        FROM ${tableName} l
+        LEFT JOIN like_counts lc ON lc.comic_id = l.id AND lc.comic_type = 'comic' AND lc.locale = ?
+        WHERE l.id IN (SELECT value FROM json_each(?))
       `)
-      .bind(comicType, limit)
+      .bind(language, JSON.stringify(ids))
       .all();
-    return result.results as unknown as LikeCount[];
+    return result.results as unknown as (LocalizedComic & LikeTotals)[];
   }
 
-  async getRandomComic(): Promise<Comic | null> {
+  /**
+   * Fetch What If articles with their like count (thumbCount); results are unordered
+   */
+  async getWhatIfsWithLikes(ids: number[]): Promise<(WhatIf & { thumbCount: number })[]> {
+    if (ids.length === 0) return [];
     const result = await this.db
-      .prepare(`SELECT ${this.COMIC_SELECT_FIELDS} FROM comics ORDER BY RANDOM() LIMIT 1`)
-      .first();
-    return result as Comic | null;
+      .prepare(`
+        SELECT ${this.prefixFields('w', this.WHATIF_SELECT_FIELDS)}, COALESCE(lc.count, 0) as thumbCount
+        FROM what_if w
+        LEFT JOIN like_counts lc ON lc.comic_id = w.id AND lc.comic_type = 'what_if' AND lc.locale = ''
+        WHERE w.id IN (SELECT value FROM json_each(?))
+      `)
+      .bind(JSON.stringify(ids))
+      .all();
+    return result.results as unknown as (WhatIf & { thumbCount: number })[];
   }
 
-  async searchComics(keyword: string, limit: number = 20): Promise<Comic[]> {
-    // Limit keyword length to prevent SQLite "LIKE pattern too complex" error
-    // SQLite has internal limits on LIKE pattern complexity, typically around 50-100 characters
-    const MAX_KEYWORD_LENGTH = 49;
-    if (keyword.trim().length >= MAX_KEYWORD_LENGTH) {
-      keyword = keyword.trim().substring(0, MAX_KEYWORD_LENGTH - 1);
+  private likeTotalColumn(idColumn: string, comicType: 'comic' | 'what_if'): string {
+    return `(SELECT COALESCE(SUM(t.count), 0) FROM like_counts t WHERE t.comic_id = ${idColumn} AND t.comic_type = '${comicType}') as totalThumbCount`;
+  }
+
+  /**
+   * Rebuild the daily like buckets from like_events, dropping days before `sinceDay`
+   * @returns Number of buckets written
+   */
+  async rebuildLikeDaily(sinceDay: string): Promise<number> {
+    const [, inserted] = await this.db.batch([
+      this.db.prepare('DELETE FROM like_daily'),
+      this.db
+        .prepare(`
+          INSERT INTO like_daily (comic_id, comic_type, locale, day, count)
+          SELECT comic_id, comic_type, locale, date(created_at), COUNT(*)
+          FROM like_events
+          WHERE date(created_at) >= ?
+          GROUP BY comic_type, locale, date(created_at), comic_id
+        `)
+        .bind(sinceDay)
+    ]);
+    return inserted.meta.changes;
+  }
+
+  /**
+   * Recompute trending scores as the weighted sum of daily buckets
+   * @param weights - Weight per day (YYYY-MM-DD); days without a weight don't count
+   * @returns Number of scored items
+   */
+  async refreshLikeTrending(weights: Record<string, number>): Promise<number> {
+    const [, inserted] = await this.db.batch([
+      this.db.prepare('DELETE FROM like_trending'),
+      this.db
+        .prepare(`
+          INSERT INTO like_trending (comic_id, comic_type, locale, score)
+          SELECT d.comic_id, d.comic_type, d.locale, SUM(d.count * w.value)
+          FROM like_daily d
+          JOIN json_each(?) w ON w.key = d.day
+          GROUP BY d.comic_type, d.locale, d.comic_id
+          HAVING SUM(d.count) > 0
+        `)
+        .bind(JSON.stringify(weights))
+    ]);
+    return inserted.meta.changes;
+  }
+
+  // Favorites related operations
+  // Edits from several devices of one owner merge per item: the newer updated_at wins,
+  // and on equal times a removal wins, so every device converges on the same list
+
+  /**
+   * Add (deleted = false) or remove an owner's favorite as edited by a client at `updatedAt` (ms)
+   * An edit older than the stored one is ignored; removals are kept as tombstones
+   * @returns The item's resulting state, and whether its favorite state changed
+   */
+  async setFavorite(ownerHash: string, comicId: number, comicType: 'comic' | 'what_if', deleted: boolean, updatedAt: number): Promise<{ favorite: Favorite, changed: boolean }> {
+    const [previous, applied] = await this.db.batch<Favorite>([
+      this.db
+        .prepare('SELECT * FROM favorites WHERE owner_hash = ? AND comic_type = ? AND comic_id = ?')
+        .bind(ownerHash, comicType, comicId),
+      this.db
+        .prepare(`
+          INSERT INTO favorites (owner_hash, comic_id, comic_type, deleted, updated_at, version)
+          VALUES (?1, ?2, ?3, ?4, ?5, (SELECT COALESCE(MAX(version), 0) + 1 FROM favorites WHERE owner_hash = ?1))
+          ON CONFLICT(owner_hash, comic_type, comic_id) DO UPDATE SET
+            deleted = excluded.deleted,
+            updated_at = excluded.updated_at,
+            version = excluded.version
+          WHERE excluded.updated_at > favorites.updated_at
+            OR (excluded.updated_at = favorites.updated_at AND excluded.deleted > favorites.deleted)
+          RETURNING *
+        `)
+        .bind(ownerHash, comicId, comicType, deleted ? 1 : 0, updatedAt)
+    ]);
+    const before = previous.results[0];
+    const favorite = applied.results[0] || before;
+    // A tombstone for an item that never was a favorite changes nothing
+    return { favorite, changed: (before ? before.deleted : 1) !== favorite.deleted };
+  }
+
+  /**
+   * An owner's favorites changed after version `since`, oldest change first
+   * since = 0 lists the current favorites; later versions also return tombstones of removed ones
+   * @returns The page, and the owner's latest version to pass as `since` next time
+   */
+  async getFavoriteChanges(ownerHash: string, since: number = 0, limit: number = 500): Promise<{ items: Favorite[], hasMore: boolean, version: number }> {
+    const [page, latest] = await this.db.batch<any>([
+      this.db
+        .prepare(`
+          SELECT * FROM favorites
+          WHERE owner_hash = ? AND version > ? AND (? > 0 OR deleted = 0)
+          ORDER BY version
+          LIMIT ?
+        `)
+        .bind(ownerHash, since, since, limit + 1),
+      this.db
+        .prepare('SELECT COALESCE(MAX(version), 0) as version FROM favorites WHERE owner_hash = ?')
+        .bind(ownerHash)
+    ]);
+    const items = page.results as Favorite[];
+    const hasMore = items.length > limit;
+    return { items: items.slice(0, limit), hasMore, version: latest.results[0]?.version || 0 };
+  }
+
+  // Read progress related operations
+
+  async getReadProgress(ownerHash: string, comicType: 'comic' | 'what_if'): Promise<ReadProgress | null> {
+    return await this.db
+      .prepare('SELECT * FROM read_progress WHERE owner_hash = ? AND comic_type = ?')
+      .bind(ownerHash, comicType)
+      .first<ReadProgress>();
+  }
+
+  /**
+   * Store a client's seen ranges if they are still at `expectedVersion` (0 = not stored yet)
+   * @returns false when another request saved them first
+   */
+  async saveReadProgress(ownerHash: string, comicType: 'comic' | 'what_if', ranges: IdRange[], expectedVersion: number): Promise<boolean> {
+    const statement = expectedVersion === 0
+      ? this.db
+        .prepare('INSERT INTO read_progress (owner_hash, comic_type, ranges) VALUES (?, ?, ?) ON CONFLICT(owner_hash, comic_type) DO NOTHING')
+        .bind(ownerHash, comicType, JSON.stringify(ranges))
+      : this.db
+        .prepare(`
+          UPDATE read_progress SET ranges = ?, version = version + 1, updated_at = CURRENT_TIMESTAMP
+          WHERE owner_hash = ? AND comic_type = ? AND version = ?
+        `)
+        .bind(JSON.stringify(ranges), ownerHash, comicType, expectedVersion);
+    const result = await statement.run();
+    return result.meta.changes > 0;
+  }
+
+  /**
+   * Stored items with an id above `sinceId` that are not in the seen ranges, and the newest id
+   */
+  async countUnread(comicType: 'comic' | 'what_if', seen: IdRange[], sinceId: number = 0): Promise<{ unread: number, latest: number }> {
+    const table = comicType === 'what_if' ? 'what_if' : 'comics';
+    const result = await this.db
+      .prepare(`
+        SELECT
+          (SELECT COUNT(*) FROM ${table} WHERE id > ? AND ${this.unseenCondition(`${table}.id`)}) as unread,
+          (SELECT COALESCE(MAX(id), 0) FROM ${table}) as latest
+      `)
+      .bind(sinceId, JSON.stringify(seen))
+      .first<{ unread: number, latest: number }>();
+    return { unread: result?.unread || 0, latest: result?.latest || 0 };
+  }
+
+  // SQL condition: `idColumn` is in none of the JSON ranges bound to its parameter
+  // The column must be qualified, json_each has an id column of its own
+  private unseenCondition(idColumn: string): string {
+    return `NOT EXISTS (
+      SELECT 1 FROM json_each(?) seen
+      WHERE ${idColumn} BETWEEN json_extract(seen.value, '$[0]') AND json_extract(seen.value, '$[1]')
+    )`;
+  }
+
+  // Comic of the day related operations
+
+  async getDailyComicId(day: string, locale: LikeLocale = ''): Promise<number | null> {
+    const result = await this.db
+      .prepare('SELECT comic_id FROM daily_comics WHERE locale = ? AND day = ?')
+      .bind(locale, day)
+      .first<{ comic_id: number }>();
+    return result?.comic_id ?? null;
+  }
+
+  /**
+   * Comics of the day picked on or after `sinceDay` (YYYY-MM-DD)
+   */
+  async getDailyComicIdsSince(locale: LikeLocale, sinceDay: string): Promise<number[]> {
+    const result = await this.db
+      .prepare('SELECT comic_id FROM daily_comics WHERE locale = ? AND day >= ?')
+      .bind(locale, sinceDay)
+      .all<{ comic_id: number }>();
+    return result.results.map(row => row.comic_id);
+  }
+
+  /**
+   * Store the comic of a day unless one is stored already
+   * @returns The stored comic of the day
+   */
+  async saveDailyComicId(day: string, locale: LikeLocale, comicId: number): Promise<number> {
+    const [, stored] = await this.db.batch<{ comic_id: number }>([
+      this.db
+        .prepare('INSERT INTO daily_comics (locale, day, comic_id) VALUES (?, ?, ?) ON CONFLICT(locale, day) DO NOTHING')
+        .bind(locale, day, comicId),
+      this.db
+        .prepare('SELECT comic_id FROM daily_comics WHERE locale = ? AND day = ?')
+        .bind(locale, day)
+    ]);
+    return stored.results[0]?.comic_id ?? comicId;
+  }
+
+  // Related comics operations
+
+  /**
+   * Replace a comic's indexed terms and cross-references
+   */
+  async replaceComicTerms(comicId: number, terms: TermWeight[], linkedIds: number[]): Promise<void> {
+    await this.db.batch([
+      this.db.prepare('DELETE FROM comic_terms WHERE comic_id = ?').bind(comicId),
+      this.db
+        .prepare(`
+          INSERT INTO comic_terms (term, comic_id, weight)
+          SELECT json_extract(value, '$.term'), ?, json_extract(value, '$.weight') FROM json_each(?)
+        `)
+        .bind(comicId, JSON.stringify(terms)),
+      this.db.prepare('DELETE FROM comic_links WHERE comic_id = ?').bind(comicId),
+      this.db
+        .prepare('INSERT INTO comic_links (comic_id, linked_id) SELECT ?, value FROM json_each(?)')
+        .bind(comicId, JSON.stringify(linkedIds))
+    ]);
+  }
+
+  async getComicTerms(comicId: number): Promise<TermWeight[]> {
+    const result = await this.db
+      .prepare('SELECT term, weight FROM comic_terms WHERE comic_id = ?')
+      .bind(comicId)
+      .all<TermWeight>();
+    return result.results;
+  }
+
+  /**
+   * Comics a comic links to or is linked from
+   */
+  async getCrossReferences(comicId: number): Promise<number[]> {
+    const result = await this.db
+      .prepare(`
+        SELECT linked_id AS id FROM comic_links WHERE comic_id = ?1
+        UNION
+        SELECT comic_id AS id FROM comic_links WHERE linked_id = ?1
+      `)
+      .bind(comicId)
+      .all<{ id: number }>();
+    return result.results.map(row => row.id).filter(id => id !== comicId);
+  }
+
+  /**
+   * Number of comics using each term, and the number of comics in the archive
+   */
+  async getTermDocumentCounts(terms: string[]): Promise<{ counts: Record<string, number>, total: number }> {
+    const [counts, total] = await this.db.batch<any>([
+      this.db
+        .prepare(`
+          SELECT term, COUNT(*) AS count FROM comic_terms
+          WHERE term IN (SELECT value FROM json_each(?))
+          GROUP BY term
+        `)
+        .bind(JSON.stringify(terms)),
+      this.db.prepare('SELECT COUNT(*) AS count FROM comics')
+    ]);
+    return {
+      counts: Object.fromEntries(counts.results.map((row: { term: string, count: number }) => [row.term, row.count])),
+      total: total.results[0]?.count || 0
+    };
+  }
+
+  /**
+   * Other comics using any of the terms, with their weights
+   */
+  async getTermPostings(terms: string[], excludeId: number): Promise<(TermWeight & { comic_id: number })[]> {
+    const result = await this.db
+      .prepare(`
+        SELECT term, comic_id, weight FROM comic_terms
+        WHERE term IN (SELECT value FROM json_each(?)) AND comic_id != ?
+      `)
+      .bind(JSON.stringify(terms), excludeId)
+      .all<TermWeight & { comic_id: number }>();
+    return result.results;
+  }
+
+  /**
+   * Comics in [start, start + size) for rebuilding the related comics index
+   */
+  async getComicsForIndexing(start: number, size: number): Promise<Pick<Comic, 'id' | 'title' | 'alt' | 'transcript' | 'news' | 'link'>[]> {
+    const result = await this.db
+      .prepare('SELECT id, title, alt, transcript, news, link FROM comics WHERE id >= ? ORDER BY id LIMIT ?')
+      .bind(start, size)
+      .all<Pick<Comic, 'id' | 'title' | 'alt' | 'transcript' | 'news' | 'link'>>();
+    return result.results;
+  }
+
+  // Random picks
+  // A random id between the lowest and highest candidate is drawn and the first candidate
+  // at or above it is taken (wrapping around to the lowest), so gaps in the ids are skipped
+  // and each pick is an index seek instead of an ORDER BY RANDOM() scan.
+  // The id right after a gap is slightly favoured; comic numbers are nearly contiguous
+
+  async getRandomComic(fields?: readonly ComicField[], filter: RandomFilter = {}): Promise<Comic | null> {
+    const [comic] = await this.getRandomComics(1, Math.random, filter, fields);
+    return comic || null;
+  }
+
+  /**
+   * Up to `count` distinct random comics matching the filter, in pick order
+   * @param random - Random source (see createRandom); a seeded one makes the picks reproducible
+   */
+  async getRandomComics(count: number, random: () => number, filter: RandomFilter = {}, fields?: readonly ComicField[]): Promise<Comic[]> {
+    const ids = await this.pickRandomIds('comics', this.buildRandomFilter('comics', filter), count, random);
+    if (ids.length === 0) return [];
+    const result = await this.db
+      .prepare(`SELECT ${this.comicColumns(fields)} FROM comics WHERE id IN (SELECT value FROM json_each(?))`)
+      .bind(JSON.stringify(ids))
+      .all();
+    const byId = new Map((result.results as unknown as Comic[]).map(comic => [comic.id, comic]));
+    return ids.flatMap(id => byId.get(id) || []);
+  }
+
+  private buildRandomFilter(table: 'comics' | 'what_if', filter: RandomFilter): SqlFilter {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (filter.from !== undefined) {
+      conditions.push('id >= ?');
+      params.push(filter.from);
     }
-    
+    if (filter.to !== undefined) {
+      conditions.push('id <= ?');
+      params.push(filter.to);
+    }
+    if (filter.language) {
+      conditions.push(`EXISTS (SELECT 1 FROM ${this.getLocalizedTableName(filter.language)} translated WHERE translated.id = ${table}.id)`);
+    }
+    if (filter.exclude && filter.exclude.length > 0) {
+      conditions.push(this.unseenCondition(`${table}.id`));
+      params.push(JSON.stringify(filter.exclude));
+    }
+    const date = this.buildDateFilter(filter.dateFilter);
+    return {
+      sql: conditions.map(condition => ` AND ${condition}`).join('') + date.sql,
+      params: [...params, ...date.params]
+    };
+  }
+
+  /**
+   * Distinct random ids of rows matching `filter`; fewer than `count` when there are fewer rows
+   * Picks are drawn in batches; ids picked in earlier batches are excluded from later ones
+   */
+  private async pickRandomIds(table: 'comics' | 'what_if', filter: SqlFilter, count: number, random: () => number): Promise<number[]> {
+    const bounds = await this.db
+      .prepare(`SELECT MIN(id) as low, MAX(id) as high FROM ${table} WHERE 1 = 1${filter.sql}`)
+      .bind(...filter.params)
+      .first<{ low: number | null, high: number | null }>();
+    if (bounds?.low == null || bounds.high == null) return [];
+    const { low, high } = bounds;
+
+    const picked: number[] = [];
+    const where = `${filter.sql} AND id NOT IN (SELECT value FROM json_each(?))`;
+    while (picked.length < count) {
+      const taken = JSON.stringify(picked);
+      const statements = Array.from({ length: count - picked.length }, () => {
+        const start = low + Math.floor(random() * (high - low + 1));
+        return this.db
+          .prepare(`
+            SELECT id FROM (SELECT id FROM ${table} WHERE id >= ?${where} ORDER BY id LIMIT 1)
+            UNION ALL
+            SELECT id FROM (SELECT id FROM ${table} WHERE id < ?${where} ORDER BY id LIMIT 1)
+            LIMIT 1
+          `)
+          .bind(start, ...filter.params, taken, start, ...filter.params, taken);
+      });
+      const before = picked.length;
+      for (const result of await this.db.batch<{ id: number }>(statements)) {
+        const id = result.results[0]?.id;
+        if (id !== undefined && !picked.includes(id)) picked.push(id);
+      }
+      // Every matching row has been picked
+      if (picked.length === before) break;
+    }
+    return picked;
+  }
+
+  /**
+   * Full-text search over title, safe_title, alt and transcript, ranked by bm25
+   * Title matches weigh most, transcript matches least
+   *
+   * @param query - FTS5 MATCH expression (build it with buildFtsQuery, never pass raw input)
+   */
+  async searchComicsFullText(query: string, limit: number = 20, offset: number = 0, fields?: readonly ComicField[]): Promise<{ comics: ComicSearchResult[], hasMore: boolean, total: number }> {
+    const countResult = await this.db
+      .prepare('SELECT COUNT(*) as count FROM comics_fts WHERE comics_fts MATCH ?')
+      .bind(query)
+      .first();
+    const total = (countResult as any)?.count || 0;
+
+    const result = await this.db
+      .prepare(`
+        SELECT ${this.prefixFields('c', this.comicColumns(fields))},
+          snippet(comics_fts, -1, '<mark>', '</mark>', '…', 16) as snippet,
+          bm25(comics_fts, 10.0, 8.0, 3.0, 1.0) as score
+        FROM comics_fts
+        JOIN comics c ON c.id = comics_fts.rowid
+        WHERE comics_fts MATCH ?
+        ORDER BY score, c.id DESC
+        LIMIT ? OFFSET ?
+      `)
+      .bind(query, limit + 1, offset)
+      .all();
+
+    const comics = result.results as unknown as ComicSearchResult[];
+    const hasMore = comics.length > limit;
+    if (hasMore) {
+      comics.pop();
+    }
+
+    return { comics, hasMore, total };
+  }
+
+  async searchComics(keyword: string, limit: number = 20, fields?: readonly ComicField[]): Promise<Comic[]> {
     const numericId = parseInt(keyword);
-    const isNumeric = !isNaN(numericId) && numericId > 0;
-    
-    let query: string;
-    let params: any[];
-    
+    const isNumeric = /^\s*\d+\s*$/.test(keyword) && numericId > 0;
+
+    const comics: Comic[] = [];
+
+    // An exact comic number always comes first
     if (isNumeric) {
-      // Search by ID or text fields (transcript used in WHERE but not returned)
-      query = `
-        SELECT ${this.COMIC_SELECT_FIELDS} FROM comics 
-        WHERE id = ? 
-           OR title LIKE ? 
-           OR alt LIKE ? 
-           OR transcript LIKE ?
-        ORDER BY 
-          CASE WHEN id = ? THEN 1 ELSE 2 END,
-          id DESC
-        LIMIT ?
-      `;
-      const searchTerm = `%${keyword}%`;
-      params = [numericId, searchTerm, searchTerm, searchTerm, numericId, limit];
-    } else {
-      // Search with exact match priority using SQL CASE (case insensitive)
-      // transcript used in WHERE/ORDER BY but not returned
-      query = `
-        SELECT ${this.COMIC_SELECT_FIELDS} FROM comics 
-        WHERE title COLLATE NOCASE = ? OR title COLLATE NOCASE LIKE ? OR alt COLLATE NOCASE = ? OR alt COLLATE NOCASE LIKE ? OR transcript COLLATE NOCASE = ? OR transcript COLLATE NOCASE LIKE ?
-        ORDER BY 
-          CASE 
-            WHEN title COLLATE NOCASE = ? THEN 1
-            WHEN alt COLLATE NOCASE = ? THEN 2
-            WHEN transcript COLLATE NOCASE = ? THEN 3
-            WHEN title COLLATE NOCASE LIKE ? THEN 4
-            WHEN alt COLLATE NOCASE LIKE ? THEN 5
-            WHEN transcript COLLATE NOCASE LIKE ? THEN 6
-            ELSE 7
-          END,
-          id DESC
-        LIMIT ?
-      `;
-      const searchTerm = `%${keyword}%`;
-      params = [
-        keyword, searchTerm, keyword, searchTerm, keyword, searchTerm,  // WHERE conditions
-        keyword, keyword, keyword,  // exact matching ORDER BY
-        searchTerm, searchTerm, searchTerm,  // phrase matching ORDER BY
-        limit
-      ];
+      const comic = await this.getComic(numericId, fields);
+      if (comic) comics.push(comic);
     }
-    
+
+    const query = buildFtsQuery(keyword, { prefixLastTerm: true });
+    if (!query) return comics;
+
+    // Exact title matches first, then bm25 relevance
     const result = await this.db
-      .prepare(query)
-      .bind(...params)
+      .prepare(`
+        SELECT ${this.prefixFields('c', this.comicColumns(fields))}
+        FROM comics_fts
+        JOIN comics c ON c.id = comics_fts.rowid
+        WHERE comics_fts MATCH ?
+        ORDER BY
+          CASE WHEN c.title = ? COLLATE NOCASE THEN 0 ELSE 1 END,
+          bm25(comics_fts, 10.0, 8.0, 3.0, 1.0),
+          c.id DESC
+        LIMIT ?
+      `)
+      .bind(query, keyword.trim(), limit)
       .all();
-    
-    const comics = result.results as unknown as Comic[];
-    
+
+    for (const comic of result.results as unknown as Comic[]) {
+      if (comics.length >= limit) break;
+      if (!comics.some(existing => existing.id === comic.id)) {
+        comics.push(comic);
+      }
+    }
+
     return comics;
   }
 
+  private prefixFields(alias: string, fields: string): string {
+    return fields.split(',').map(field => `${alias}.${field.trim()}`).join(', ');
+  }
+
   // What If related operations
   async getWhatIfList(start: number = 0, size: number = 100, reversed: boolean = false): Promise<{ whatIfs: WhatIf[], hasMore: boolean, total: number }> {
     const order = reversed ? 'DESC' : 'ASC';
@@ -353,12 +1295,34 @@ export class Database {
     return { whatIfs, hasMore, total };
   }
 
-  async getWhatIf(id: number): Promise<WhatIf | null> {
+  async getWhatIfsByCursor(page: CursorPage): Promise<{ whatIfs: WhatIf[], hasNext: boolean, hasPrev: boolean }> {
+    const { rows, hasNext, hasPrev } = await this.getKeysetPage<WhatIf>('what_if', this.WHATIF_SELECT_FIELDS, page);
+    return { whatIfs: rows, hasNext, hasPrev };
+  }
+
+  /**
+   * @param full - Also select the article content (question, asker, answer, images, footnotes)
+   */
+  async getWhatIf(id: number, full: boolean = false): Promise<WhatIf | null> {
+    const columns = full ? `${this.WHATIF_SELECT_FIELDS}, ${this.WHATIF_CONTENT_FIELDS}` : this.WHATIF_SELECT_FIELDS;
     const result = await this.db
-      .prepare(`SELECT ${this.WHATIF_SELECT_FIELDS} FROM what_if WHERE id = ?`)
+      .prepare(`SELECT ${columns} FROM what_if WHERE id = ?`)
       .bind(id)
       .first();
-    return result as WhatIf | null;
+    if (!result) return null;
+    return full ? this.parseWhatIfContent(result) : result as unknown as WhatIf;
+  }
+
+  /**
+   * Articles with their content, in the requested order; unknown ids are skipped
+   */
+  async getFullWhatIfs(ids: number[]): Promise<WhatIf[]> {
+    const result = await this.db
+      .prepare(`SELECT ${this.WHATIF_SELECT_FIELDS}, ${this.WHATIF_CONTENT_FIELDS} FROM what_if WHERE id IN (SELECT value FROM json_each(?))`)
+      .bind(JSON.stringify(ids))
+      .all();
+    const byId = new Map(result.results.map(row => [row.id as number, this.parseWhatIfContent(row)]));
+    return ids.filter(id => byId.has(id)).map(id => byId.get(id)!);
   }
 
   async getLatestWhatIf(): Promise<WhatIf | null> {
@@ -368,21 +1332,59 @@ export class Database {
     return result as WhatIf | null;
   }
 
-  async getRandomWhatIf(): Promise<WhatIf | null> {
-    const result = await this.db
-      .prepare(`SELECT ${this.WHATIF_SELECT_FIELDS} FROM what_if ORDER BY RANDOM() LIMIT 1`)
+  /**
+   * Random article (see getRandomComics for how it is picked)
+   * @param exclude - Ids to skip, e.g. the articles a client has seen
+   */
+  async getRandomWhatIf(exclude: IdRange[] = []): Promise<WhatIf | null> {
+    const [id] = await this.pickRandomIds('what_if', this.buildRandomFilter('what_if', { exclude }), 1, Math.random);
+    return id === undefined ? null : this.getWhatIf(id);
+  }
+
+  /**
+   * Full-text search over What If titles, questions, answers and footnotes
+   * @param query - FTS5 MATCH expression (see buildFtsQuery)
+   */
+  async searchWhatIfFullText(query: string, limit: number = 20, offset: number = 0): Promise<{ whatIfs: WhatIfSearchResult[], hasMore: boolean, total: number }> {
+    const countResult = await this.db
+      .prepare('SELECT COUNT(*) as count FROM what_if_fts WHERE what_if_fts MATCH ?')
+      .bind(query)
       .first();
-    return result as WhatIf | null;
+    const total = (countResult as any)?.count || 0;
+
+    const result = await this.db
+      .prepare(`
+        SELECT ${this.prefixFields('w', this.WHATIF_SELECT_FIELDS)},
+          snippet(what_if_fts, -1, '<mark>', '</mark>', '…', 16) as snippet,
+          bm25(what_if_fts, 10.0, 5.0, 2.0, 1.0) as score
+        FROM what_if_fts
+        JOIN what_if w ON w.id = what_if_fts.rowid
+        WHERE what_if_fts MATCH ?
+        ORDER BY score, w.id DESC
+        LIMIT ? OFFSET ?
+      `)
+      .bind(query, limit + 1, offset)
+      .all();
+
+    const whatIfs = result.results as unknown as WhatIfSearchResult[];
+    const hasMore = whatIfs.length > limit;
+    if (hasMore) {
+      whatIfs.pop();
+    }
+
+    return { whatIfs, hasMore, total };
   }
 
+  /**
+   * Suggestions for /what-if-suggest: the article number and title matches first,
+   * then articles whose text matches
+   */
   async searchWhatIf(keyword: string, limit: number = 20): Promise<WhatIf[]> {
-    // Limit keyword length to prevent SQLite "LIKE pattern too complex" error
-    // SQLite has internal limits on LIKE pattern complexity, typically around 50-100 characters
-    const MAX_KEYWORD_LENGTH = 49;
-    if (keyword.trim().length >= MAX_KEYWORD_LENGTH) {
-      keyword = keyword.trim().substring(0, MAX_KEYWORD_LENGTH - 1);
-    }
-    
+    // D1 rejects long LIKE patterns ("LIKE or GLOB pattern too complex"), so only the
+    // title LIKE match is shortened; the full-text fill-up below gets the whole keyword
+    const MAX_LIKE_KEYWORD_LENGTH = 48;
+    const searchTerm = `%${keyword.trim().substring(0, MAX_LIKE_KEYWORD_LENGTH)}%`;
+
     const numericId = parseInt(keyword);
     const isNumeric = !isNaN(numericId) && numericId > 0;
     
@@ -390,7 +1392,7 @@ export class Database {
     let params: any[];
     
     if (isNumeric) {
-      // Search by ID or title (question and answer fields removed)
+      // Search by ID or title
       query = `
         SELECT ${this.WHATIF_SELECT_FIELDS} FROM what_if 
         WHERE id = ? 
@@ -400,10 +1402,9 @@ export class Database {
           id DESC
         LIMIT ?
       `;
-      const searchTerm = `%${keyword}%`;
       params = [numericId, searchTerm, numericId, limit];
     } else {
-      // Search only title field (question and answer fields removed)
+      // Search the title first
       query = `
         SELECT ${this.WHATIF_SELECT_FIELDS} FROM what_if 
         WHERE title COLLATE NOCASE = ? OR title COLLATE NOCASE LIKE ?
@@ -416,7 +1417,6 @@ export class Database {
           id DESC
         LIMIT ?
       `;
-      const searchTerm = `%${keyword}%`;
       params = [
         keyword, searchTerm,  // WHERE conditions
         keyword, searchTerm,  // ORDER BY conditions
@@ -430,7 +1430,29 @@ export class Database {
       .all();
     
     const whatIfs = result.results as unknown as WhatIf[];
-    
+
+    // Fill up with articles whose question, answer or footnotes match
+    const ftsQuery = buildFtsQuery(keyword, { prefixLastTerm: true });
+    if (ftsQuery && whatIfs.length < limit) {
+      const matches = await this.db
+        .prepare(`
+          SELECT ${this.prefixFields('w', this.WHATIF_SELECT_FIELDS)}
+          FROM what_if_fts
+          JOIN what_if w ON w.id = what_if_fts.rowid
+          WHERE what_if_fts MATCH ?
+          ORDER BY bm25(what_if_fts, 10.0, 5.0, 2.0, 1.0), w.id DESC
+          LIMIT ?
+        `)
+        .bind(ftsQuery, limit)
+        .all();
+      for (const whatIf of matches.results as unknown as WhatIf[]) {
+        if (whatIfs.length >= limit) break;
+        if (!whatIfs.some(existing => existing.id === whatIf.id)) {
+          whatIfs.push(whatIf);
+        }
+      }
+    }
+
     return whatIfs;
   }
 }
@@ -2,6 +2,8 @@
  * Cache utilities for Cloudflare Workers
  */
 
+import { addValidators, createNotModifiedResponse, isNotModified, withoutConditionalHeaders } from './conditional';
+
 interface CacheOptions {
   /**
    * Cache TTL in seconds (default: 3600 = 1 hour)
@@ -22,6 +24,12 @@ interface CacheOptions {
    * Cache key prefix
    */
   keyPrefix?: string;
+
+  /**
+   * Rewrite the request URL before using it as cache key
+   * (e.g. canonicalize equivalent query parameters so they share an entry)
+   */
+  normalizeKey?: (url: URL) => URL;
 }
 
 /**
@@ -41,7 +49,8 @@ export function withCache<T extends (...args: any[]) => Promise<Response>>(
     ttl = 3600,           // 1 hour edge cache
     browserTtl = 300,     // 5 minutes browser cache
     notFoundTtl = 300,    // 5 minutes for 404
-    keyPrefix = 'api'
+    keyPrefix = 'api',
+    normalizeKey
   } = options;
 
   return (async (...args: any[]) => {
@@ -53,8 +62,9 @@ export function withCache<T extends (...args: any[]) => Promise<Response>>(
     }
 
     // Create cache key from URL
-    const cacheUrl = new URL(request.url);
-    const cacheKey = new Request(cacheUrl.toString(), request);
+    const requestUrl = new URL(request.url);
+    const cacheUrl = normalizeKey ? normalizeKey(requestUrl) : requestUrl;
+    const cacheKey = new Request(cacheUrl.toString(), { method: 'GET', headers: withoutConditionalHeaders(request.headers) });
     const cache = caches.default;
 
     // Try to get from cache
@@ -64,6 +74,10 @@ export function withCache<T extends (...args: any[]) => Promise<Response>>(
       // Cache hit - add header to indicate
       response = new Response(response.body, response);
       response.headers.set('X-Cache', 'HIT');
+      // Revalidation at the edge: answer 304 without touching the handler
+      if (response.status === 200 && isNotModified(request, response.headers)) {
+        return createNotModifiedResponse(response.headers);
+      }
       return response;
     }
 
@@ -72,19 +86,24 @@ export function withCache<T extends (...args: any[]) => Promise<Response>>(
     
     // Cache successful responses (200)
     if (response.status === 200) {
-      const responseToCache = response.clone();
-      const headers = new Headers(responseToCache.headers);
+      const body = await response.arrayBuffer();
+      const headers = new Headers(response.headers);
       headers.set('Cache-Control', `public, max-age=${browserTtl}, s-maxage=${ttl}`);
       headers.set('CDN-Cache-Control', `max-age=${ttl}`);
       headers.set('X-Cache', 'MISS');
+      await addValidators(body, headers);
       
-      const cachedResponse = new Response(responseToCache.body, {
-        status: responseToCache.status,
-        statusText: responseToCache.statusText,
+      const cachedResponse = new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
         headers
       });
       
       args[2]?.waitUntil(cache.put(cacheKey, cachedResponse.clone()));
+      // Revalidation at the origin: the full response is still cached, the client gets a 304
+      if (isNotModified(request, headers)) {
+        return createNotModifiedResponse(headers);
+      }
       return cachedResponse;
     }
     
@@ -112,6 +131,15 @@ export function withCache<T extends (...args: any[]) => Promise<Response>>(
   }) as T;
 }
 
+/**
+ * Seconds until the next UTC midnight (at least 60)
+ * Use as a TTL for responses that depend on the current UTC date
+ */
+export function secondsUntilUtcMidnight(now: Date = new Date()): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.max(60, Math.floor((midnight - now.getTime()) / 1000));
+}
+
 /**
  * Manually purge cache for a specific URL pattern
  */
@@ -140,8 +168,11 @@ export async function purgeCache(urlPattern: string | RegExp): Promise<void> {
 export function withDynamicCache<T extends (...args: any[]) => Promise<Response>>(
   handler: T,
   getCacheOptions: (request: Request) => { ttl: number; browserTtl?: number; notFoundTtl?: number },
-  getCacheOptionsFromResponse?: (request: Request, response: Response) => Promise<{ ttl: number; browserTtl?: number; notFoundTtl?: number } | null> | { ttl: number; browserTtl?: number; notFoundTtl?: number } | null
+  getCacheOptionsFromResponse?: (request: Request, response: Response) => Promise<{ ttl: number; browserTtl?: number; notFoundTtl?: number } | null> | { ttl: number; browserTtl?: number; notFoundTtl?: number } | null,
+  keyOptions: Pick<CacheOptions, 'normalizeKey'> = {}
 ): T {
+  const { normalizeKey } = keyOptions;
+
   return (async (...args: any[]) => {
     const [request] = args;
     
@@ -151,8 +182,9 @@ export function withDynamicCache<T extends (...args: any[]) => Promise<Response>
     }
 
     // Create cache key from URL
-    const cacheUrl = new URL(request.url);
-    const cacheKey = new Request(cacheUrl.toString(), request);
+    const requestUrl = new URL(request.url);
+    const cacheUrl = normalizeKey ? normalizeKey(requestUrl) : requestUrl;
+    const cacheKey = new Request(cacheUrl.toString(), { method: 'GET', headers: withoutConditionalHeaders(request.headers) });
     const cache = caches.default;
 
     // Try to get from cache
@@ -162,6 +194,10 @@ export function withDynamicCache<T extends (...args: any[]) => Promise<Response>
       // Cache hit - add header to indicate
       response = new Response(response.body, response);
       response.headers.set('X-Cache', 'HIT');
+      // Revalidation at the edge: answer 304 without touching the handler
+      if (response.status === 200 && isNotModified(request, response.headers)) {
+        return createNotModifiedResponse(response.headers);
+      }
       return response;
     }
 
@@ -185,19 +221,24 @@ export function withDynamicCache<T extends (...args: any[]) => Promise<Response>
     
     // Cache successful responses (200)
     if (response.status === 200) {
-      const responseToCache = response.clone();
-      const headers = new Headers(responseToCache.headers);
+      const body = await response.arrayBuffer();
+      const headers = new Headers(response.headers);
       headers.set('Cache-Control', `public, max-age=${browserTtl}, s-maxage=${ttl}`);
       headers.set('CDN-Cache-Control', `max-age=${ttl}`);
       headers.set('X-Cache', 'MISS');
+      await addValidators(body, headers);
       
-      const cachedResponse = new Response(responseToCache.body, {
-        status: responseToCache.status,
-        statusText: responseToCache.statusText,
+      const cachedResponse = new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
         headers
       });
       
       args[2]?.waitUntil(cache.put(cacheKey, cachedResponse.clone()));
+      // Revalidation at the origin: the full response is still cached, the client gets a 304
+      if (isNotModified(request, headers)) {
+        return createNotModifiedResponse(headers);
+      }
       return cachedResponse;
     }
     
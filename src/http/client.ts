@@ -0,0 +1,40 @@
+/**
+ * Anonymous client identity for per-client state such as likes and favorites
+ *
+ * Apps send a stable X-Device-Id; other clients are identified by their IP.
+ * Only a salted hash is stored, never the raw id or address.
+ */
+
+export const DEVICE_ID_HEADER = 'X-Device-Id';
+
+// UUIDs, Firebase installation ids and similar opaque tokens
+const DEVICE_ID_PATTERN = /^[A-Za-z0-9._:-]{8,128}$/;
+
+// Used when CLIENT_ID_SALT is not configured (local dev); set it via `wrangler secret put CLIENT_ID_SALT`
+const DEFAULT_CLIENT_ID_SALT = 'xkcd-serverless-client';
+
+const encoder = new TextEncoder();
+
+/**
+ * Hash identifying the client of a request (32 hex chars)
+ * A malformed X-Device-Id is ignored and the IP is used instead
+ */
+export async function getClientHash(request: Request, env: any): Promise<string> {
+  return await getDeviceHash(request, env) || hashClientSource(`ip:${request.headers.get('CF-Connecting-IP') || 'unknown'}`, env);
+}
+
+/**
+ * Hash of the request's X-Device-Id, or null when it is missing or malformed
+ * For state that must not be shared between clients behind one IP, such as favorites
+ */
+export async function getDeviceHash(request: Request, env: any): Promise<string | null> {
+  const deviceId = request.headers.get(DEVICE_ID_HEADER);
+  if (!deviceId || !DEVICE_ID_PATTERN.test(deviceId)) return null;
+  return hashClientSource(`device:${deviceId}`, env);
+}
+
+async function hashClientSource(source: string, env: any): Promise<string> {
+  const salt = env?.CLIENT_ID_SALT || DEFAULT_CLIENT_ID_SALT;
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`${salt}:${source}`));
+  return Array.from(new Uint8Array(digest).slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+}
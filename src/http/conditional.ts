@@ -0,0 +1,158 @@
+/**
+ * Conditional GET support (ETag / Last-Modified validators and 304 responses)
+ */
+
+// Headers a 304 keeps from the full response (RFC 9110 §15.4.5, plus CORS so browsers accept it)
+const NOT_MODIFIED_HEADERS = ['ETag', 'Last-Modified', 'Cache-Control', 'CDN-Cache-Control', 'Vary', 'X-Cache'];
+
+const SQLITE_TIMESTAMP = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+/**
+ * Pagination headers (X-Pagination-*, Link) of a response, in a stable order
+ * They describe the page as much as the body does, so they are part of its validators
+ */
+function getPaginationHeaders(headers: Headers): [string, string][] {
+  return [...headers]
+    .filter(([name]) => name.startsWith('x-pagination-') || name === 'link')
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Strong ETag from a SHA-256 hash of the response body and its pagination headers
+ */
+export async function computeEtag(body: ArrayBuffer, headers: Headers = new Headers()): Promise<string> {
+  const pagination = new TextEncoder().encode(JSON.stringify(getPaginationHeaders(headers)));
+  const content = new Uint8Array(body.byteLength + pagination.length);
+  content.set(new Uint8Array(body));
+  content.set(pagination, body.byteLength);
+  const digest = await crypto.subtle.digest('SHA-256', content);
+  const hex = Array.from(new Uint8Array(digest).slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `"${hex}"`;
+}
+
+/**
+ * Parse a D1 timestamp (SQLite 'YYYY-MM-DD HH:MM:SS' in UTC, or ISO 8601) to epoch milliseconds
+ */
+function parseTimestamp(value: string): number {
+  return Date.parse(SQLITE_TIMESTAMP.test(value) ? `${value.replace(' ', 'T')}Z` : value);
+}
+
+/**
+ * Format a D1 timestamp as an HTTP date for Last-Modified
+ * @returns null if the timestamp can't be parsed
+ */
+export function toHttpDate(timestamp: string): string | null {
+  const time = parseTimestamp(timestamp);
+  return isNaN(time) ? null : new Date(time).toUTCString();
+}
+
+/**
+ * Set Last-Modified from a D1 timestamp (no-op when there is none)
+ */
+export function setLastModified(headers: Headers, timestamp: string | null): void {
+  const lastModified = timestamp && toHttpDate(timestamp);
+  if (lastModified) headers.set('Last-Modified', lastModified);
+}
+
+/**
+ * Find the newest `updated_at` (v1) or `updatedAt` (v2) anywhere in a JSON payload (single record, array or envelope)
+ */
+export function findNewestUpdatedAt(payload: unknown): string | null {
+  let newest: string | null = null;
+  let newestTime = -Infinity;
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        if ((key === 'updated_at' || key === 'updatedAt') && typeof child === 'string') {
+          const time = parseTimestamp(child);
+          if (!isNaN(time) && time > newestTime) {
+            newest = child;
+            newestTime = time;
+          }
+        } else if (child && typeof child === 'object') {
+          visit(child);
+        }
+      }
+    }
+  };
+
+  visit(payload);
+  return newest;
+}
+
+/**
+ * Set ETag and Last-Modified on a 200 response unless the handler already provided them
+ * Last-Modified comes from the newest `updated_at` in a JSON payload. Pages of a list get none:
+ * whether another page follows can change while every row on the page stays the same,
+ * so they are revalidated with the ETag only
+ */
+export async function addValidators(body: ArrayBuffer, headers: Headers): Promise<void> {
+  if (!headers.has('ETag')) {
+    headers.set('ETag', await computeEtag(body, headers));
+  }
+
+  const paged = getPaginationHeaders(headers).length > 0;
+  if (!paged && !headers.has('Last-Modified') && headers.get('Content-Type')?.includes('application/json')) {
+    try {
+      const payload = JSON.parse(new TextDecoder().decode(body));
+      // v2 envelopes carry their pagination in meta
+      if (!payload?.meta?.pagination) setLastModified(headers, findNewestUpdatedAt(payload));
+    } catch {
+      // Not valid JSON; the ETag alone still allows revalidation
+    }
+  }
+}
+
+function stripWeakPrefix(tag: string): string {
+  return tag.startsWith('W/') ? tag.slice(2) : tag;
+}
+
+/**
+ * Evaluate If-None-Match / If-Modified-Since against a response's validators
+ * If-None-Match takes precedence and uses weak comparison, since the edge may weaken ETags when compressing
+ */
+export function isNotModified(request: Request, headers: Headers): boolean {
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  if (ifNoneMatch !== null) {
+    const etag = headers.get('ETag');
+    if (!etag) return false;
+    if (ifNoneMatch.trim() === '*') return true;
+    return ifNoneMatch.split(',').some(tag => stripWeakPrefix(tag.trim()) === stripWeakPrefix(etag));
+  }
+
+  const ifModifiedSince = request.headers.get('If-Modified-Since');
+  const lastModified = headers.get('Last-Modified');
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    const modified = Date.parse(lastModified);
+    return !isNaN(since) && !isNaN(modified) && modified <= since;
+  }
+  return false;
+}
+
+/**
+ * Build a bodiless 304 response carrying the validators and caching headers of the full response
+ */
+export function createNotModifiedResponse(headers: Headers): Response {
+  const notModifiedHeaders = new Headers();
+  for (const [name, value] of headers) {
+    if (name.startsWith('access-control-') || NOT_MODIFIED_HEADERS.some(header => header.toLowerCase() === name)) {
+      notModifiedHeaders.set(name, value);
+    }
+  }
+  return new Response(null, { status: 304, headers: notModifiedHeaders });
+}
+
+/**
+ * Copy of the request headers without conditional headers, for use as a cache key
+ * so the Cache API always hands back the full response and validators are evaluated in one place
+ */
+export function withoutConditionalHeaders(headers: Headers): Headers {
+  const stripped = new Headers(headers);
+  stripped.delete('If-None-Match');
+  stripped.delete('If-Modified-Since');
+  return stripped;
+}
@@ -0,0 +1,171 @@
+/**
+ * Opaque, signed pagination cursors
+ *
+ * A cursor carries everything needed to fetch the adjacent page (scope, sort
+ * order, paging direction, anchor id and page size), so clients never have to
+ * do id arithmetic themselves. Tokens are `base64url(payload).base64url(hmac)`.
+ */
+
+export type CursorOrder = 'asc' | 'desc';
+export type CursorDirection = 'next' | 'prev';
+
+export interface PageCursor {
+  /** Which list the cursor belongs to, e.g. 'xkcd', 'what-if', 'archive:zh-cn' */
+  scope: string;
+  /** Display order of the list */
+  order: CursorOrder;
+  /** Whether to page forward (after id) or backward (before id) in display order */
+  direction: CursorDirection;
+  /** Last-seen id; the page starts right after it (exclusive) */
+  id: number;
+  size: number;
+}
+
+/**
+ * A page request as understood by the database layer
+ * anchorId is null for the first page of a list
+ */
+export interface CursorPage {
+  order: CursorOrder;
+  direction: CursorDirection;
+  anchorId: number | null;
+  size: number;
+}
+
+interface CursorPayload {
+  s: string;
+  o: CursorOrder;
+  d: CursorDirection;
+  i: number;
+  n: number;
+}
+
+// Cursors are signed with CURSOR_SECRET (`wrangler secret put CURSOR_SECRET`); without it cursor
+// pagination is off, since a generated secret could differ between isolates
+export const CURSOR_SECRET_MISSING = 'Cursor pagination is not configured';
+let missingSecretLogged = false;
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+async function sign(data: string, secret: string): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(data));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+// Constant-time check of the full HMAC
+async function verify(data: string, signature: string, secret: string): Promise<boolean> {
+  return crypto.subtle.verify('HMAC', await importKey(secret), fromBase64Url(signature), encoder.encode(data));
+}
+
+/**
+ * Get the cursor signing secret (CURSOR_SECRET), or null when it is not set and cursor pagination is off
+ */
+export function getCursorSecret(env: any): string | null {
+  if (env?.CURSOR_SECRET) return env.CURSOR_SECRET;
+  if (!missingSecretLogged) {
+    console.error('CURSOR_SECRET is not set: cursor pagination is disabled');
+    missingSecretLogged = true;
+  }
+  return null;
+}
+
+export async function encodeCursor(cursor: PageCursor, secret: string): Promise<string> {
+  const payload: CursorPayload = {
+    s: cursor.scope,
+    o: cursor.order,
+    d: cursor.direction,
+    i: cursor.id,
+    n: cursor.size
+  };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  return `${body}.${await sign(body, secret)}`;
+}
+
+/**
+ * Decode and verify a cursor token
+ * @returns The cursor, or null if the token is malformed, tampered with, or belongs to another scope
+ */
+export async function decodeCursor(token: string, secret: string, scope: string): Promise<PageCursor | null> {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  try {
+    if (!(await verify(body, signature, secret))) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as CursorPayload;
+    if (payload.s !== scope) return null;
+    if (payload.o !== 'asc' && payload.o !== 'desc') return null;
+    if (payload.d !== 'next' && payload.d !== 'prev') return null;
+    if (!Number.isInteger(payload.i) || payload.i < 0) return null;
+    if (!Number.isInteger(payload.n) || payload.n <= 0) return null;
+
+    return { scope: payload.s, order: payload.o, direction: payload.d, id: payload.i, size: payload.n };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build next/prev cursors for a page of rows (rows must be in display order)
+ */
+export async function buildPageCursors(
+  rows: { id: number }[],
+  page: { scope: string; order: CursorOrder; size: number; hasNext: boolean; hasPrev: boolean },
+  secret: string
+): Promise<{ next: string | null; prev: string | null }> {
+  if (rows.length === 0) return { next: null, prev: null };
+
+  const base = { scope: page.scope, order: page.order, size: page.size };
+  const next = page.hasNext
+    ? await encodeCursor({ ...base, direction: 'next', id: rows[rows.length - 1].id }, secret)
+    : null;
+  const prev = page.hasPrev
+    ? await encodeCursor({ ...base, direction: 'prev', id: rows[0].id }, secret)
+    : null;
+  return { next, prev };
+}
+
+/**
+ * Build an RFC 8288 Link header pointing at the next/prev pages
+ */
+export function buildLinkHeader(requestUrl: string, cursors: { next: string | null; prev: string | null }): string | null {
+  const links: string[] = [];
+  for (const rel of ['next', 'prev'] as const) {
+    const cursor = cursors[rel];
+    if (!cursor) continue;
+    const url = new URL(requestUrl);
+    url.searchParams.delete('start');
+    url.searchParams.delete('reversed');
+    url.searchParams.set('cursor', cursor);
+    links.push(`<${url.toString()}>; rel="${rel}"`);
+  }
+  return links.length > 0 ? links.join(', ') : null;
+}
+
+/**
+ * Resolve the `cursor` query parameter into a page to fetch
+ * An empty token starts cursor pagination at `firstPage`
+ * @returns The page to fetch, or null if the token is invalid
+ */
+export async function resolveCursorPage(token: string, scope: string, secret: string, firstPage: CursorPage): Promise<CursorPage | null> {
+  if (!token) return firstPage;
+  const cursor = await decodeCursor(token, secret, scope);
+  if (!cursor) return null;
+  return { order: cursor.order, direction: cursor.direction, anchorId: cursor.id, size: cursor.size };
+}
@@ -0,0 +1,79 @@
+/**
+ * Map database rows to v2 DTOs
+ */
+
+import {
+  Comic,
+  ComicDto,
+  ComicSearchResult,
+  ComicSearchResultDto,
+  LocalizedComic,
+  LocalizedComicDto,
+  LocalizedComicSearchResult,
+  SupportedLanguage,
+  WhatIf,
+  WhatIfDto
+} from '../types';
+
+function formatDate(year?: number, month?: number, day?: number): string | null {
+  if (!year || !month || !day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function toComicDto(comic: Comic & { translated?: boolean }): ComicDto {
+  const dto: ComicDto = {
+    num: comic.id,
+    title: comic.title,
+    alt: comic.alt ?? '',
+    img: comic.img,
+    width: comic.width ?? null,
+    height: comic.height ?? null,
+    date: formatDate(comic.year, comic.month, comic.day)
+  };
+  // Extended columns are only selected with ?full=1
+  if (comic.safe_title !== undefined) dto.safeTitle = comic.safe_title;
+  if (comic.transcript !== undefined) dto.transcript = comic.transcript;
+  if (comic.link !== undefined) dto.link = comic.link;
+  if (comic.news !== undefined) dto.news = comic.news;
+  if (comic.updated_at !== undefined) dto.updatedAt = comic.updated_at;
+  if (comic.translated !== undefined) dto.translated = comic.translated;
+  return dto;
+}
+
+export function toComicSearchResultDto(result: ComicSearchResult): ComicSearchResultDto {
+  return { ...toComicDto(result), snippet: result.snippet, score: result.score };
+}
+
+export function toWhatIfDto(whatIf: WhatIf): WhatIfDto {
+  const dto: WhatIfDto = {
+    num: whatIf.id,
+    title: whatIf.title,
+    url: whatIf.url,
+    date: whatIf.date || null
+  };
+  // Article content is only selected with ?full=1
+  if (whatIf.answer !== undefined) {
+    dto.question = whatIf.question;
+    dto.asker = whatIf.asker;
+    dto.answer = whatIf.answer;
+    dto.images = whatIf.images;
+    dto.footnotes = whatIf.footnotes;
+  }
+  return dto;
+}
+
+export function toLocalizedComicDto(comic: LocalizedComic | LocalizedComicSearchResult, locale: SupportedLanguage): LocalizedComicDto {
+  const dto: LocalizedComicDto = {
+    num: comic.id,
+    locale,
+    title: comic.title,
+    alt: comic.alt ?? '',
+    img: comic.img,
+    sourceUrl: comic.source_url ?? null
+  };
+  if ('snippet' in comic) {
+    dto.originalTitle = comic.original_title ?? null;
+    dto.snippet = comic.snippet;
+  }
+  return dto;
+}
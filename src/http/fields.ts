@@ -0,0 +1,65 @@
+/**
+ * Field selection for comic responses (?fields=num,title,transcript or ?full=1)
+ */
+
+// Columns of the comics table that clients may select; anything else is rejected
+export const COMIC_FIELDS = [
+  'id', 'title', 'safe_title', 'alt', 'img', 'transcript',
+  'year', 'month', 'day', 'link', 'news', 'width', 'height',
+  'created_at', 'updated_at'
+] as const;
+
+export type ComicField = typeof COMIC_FIELDS[number];
+
+/**
+ * Parse ?fields= / ?full=1 into a validated, canonically ordered field list
+ * @returns fields undefined when the client didn't ask for a selection (default field set)
+ */
+export function parseComicFields(url: URL): { fields?: ComicField[]; error?: string } {
+  if (url.searchParams.get('full') === '1') {
+    return { fields: [...COMIC_FIELDS] };
+  }
+
+  const param = url.searchParams.get('fields');
+  if (param === null) return {};
+  return parseFieldList(param);
+}
+
+/**
+ * Parse a comma-separated field list
+ * The API exposes `id` as `num`, so both names are accepted; id is always included
+ */
+export function parseFieldList(param: string): { fields?: ComicField[]; error?: string } {
+  const requested = new Set<ComicField>(['id']);
+  for (const part of param.split(',')) {
+    const name = part.trim();
+    if (!name) continue;
+    const column = name === 'num' ? 'id' : name;
+    if (!(COMIC_FIELDS as readonly string[]).includes(column)) {
+      return { error: `Unknown field: ${name}. Allowed: num, ${COMIC_FIELDS.filter(f => f !== 'id').join(', ')}` };
+    }
+    requested.add(column as ComicField);
+  }
+
+  return { fields: COMIC_FIELDS.filter(field => requested.has(field)) };
+}
+
+/**
+ * Field selection from already parsed ?full= / ?fields= values (full wins)
+ */
+export function selectComicFields(full: boolean, fields?: ComicField[]): ComicField[] | undefined {
+  return full ? [...COMIC_FIELDS] : fields;
+}
+
+/**
+ * Rewrite ?fields= / ?full=1 to a canonical form for cache keys
+ * Equivalent selections (different order, num vs id, full=1) then share one cache entry
+ */
+export function normalizeComicFieldsKey(url: URL): URL {
+  const { fields, error } = parseComicFields(url);
+  if (error || !fields) return url;
+  const normalized = new URL(url.toString());
+  normalized.searchParams.delete('full');
+  normalized.searchParams.set('fields', fields.join(','));
+  return normalized;
+}
@@ -0,0 +1,480 @@
+/**
+ * OpenAPI 3.1 document generated from route schemas
+ */
+
+import { JsonSchema, ParamSchema, RouteSchema } from './schema';
+import { COMIC_FIELDS } from './fields';
+import { SUPPORTED_LANGUAGES } from '../i18n/locale';
+
+export function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+export function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: 'array', items };
+}
+
+/**
+ * Wrap a data schema in the v2 { data, meta, error } envelope
+ */
+export function envelopeOf(data: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    required: ['data', 'meta', 'error'],
+    properties: {
+      data: data,
+      meta: ref('ApiMeta'),
+      error: { type: 'null' }
+    }
+  };
+}
+
+const nullable = (type: string): JsonSchema => ({ type: [type, 'null'] });
+
+// Columns outside the default set are only returned with ?fields= or ?full=1
+const comicProperties: Record<string, JsonSchema> = {
+  num: { type: 'integer' },
+  title: { type: 'string' },
+  safe_title: { type: 'string' },
+  alt: { type: 'string' },
+  img: { type: 'string', format: 'uri' },
+  transcript: { type: 'string' },
+  year: { type: 'integer' },
+  month: { type: 'integer' },
+  day: { type: 'integer' },
+  link: { type: 'string' },
+  news: { type: 'string' },
+  width: nullable('integer'),
+  height: nullable('integer'),
+  created_at: { type: 'string' },
+  updated_at: { type: 'string' }
+};
+
+// What If article content, only returned with ?full=1
+const whatIfContentProperties: Record<string, JsonSchema> = {
+  question: { type: 'string', description: 'Only with ?full=1' },
+  asker: { type: 'string', description: 'Who asked the question; only with ?full=1' },
+  answer: { type: 'string', description: 'Sanitized HTML; footnote markers link to #fn-{num}. Only with ?full=1' },
+  images: arrayOf({
+    type: 'object',
+    required: ['src', 'title'],
+    properties: { src: { type: 'string', format: 'uri' }, title: { type: 'string' } }
+  }),
+  footnotes: arrayOf({
+    type: 'object',
+    required: ['num', 'html'],
+    properties: { num: { type: 'integer' }, html: { type: 'string', description: 'Sanitized HTML' } }
+  })
+};
+
+// Extra fields of expanded top list items (?expand=1)
+const topProperties: Record<string, JsonSchema> = {
+  thumbCount: { type: 'integer', description: 'Like count (in the requested language for translations)' },
+  rank: { type: 'integer', description: '1-based position in the ranking' }
+};
+const totalThumbCountProperty: JsonSchema = { type: 'integer', description: 'Likes of the same num over all languages' };
+
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: { type: 'string' },
+      details: arrayOf(ref('FieldError'))
+    }
+  },
+  FieldError: {
+    type: 'object',
+    required: ['in', 'name', 'message'],
+    properties: {
+      in: { enum: ['path', 'query', 'form'] },
+      name: { type: 'string' },
+      message: { type: 'string' }
+    }
+  },
+  Comic: {
+    type: 'object',
+    required: ['num'],
+    properties: comicProperties
+  },
+  ComicSearchResult: {
+    allOf: [ref('Comic'), {
+      type: 'object',
+      properties: {
+        snippet: { type: 'string', description: 'Matched text with <mark> highlights' },
+        score: { type: 'number', description: 'bm25 score, lower is more relevant' }
+      }
+    }]
+  },
+  ComicCursorPage: {
+    type: 'object',
+    required: ['items', 'next', 'prev'],
+    properties: {
+      items: arrayOf(ref('Comic')),
+      next: nullable('string'),
+      prev: nullable('string')
+    }
+  },
+  RelatedComic: {
+    allOf: [ref('Comic'), {
+      type: 'object',
+      properties: {
+        score: { type: 'number', description: 'Similarity; cross-references add 1' },
+        crossReference: { type: 'boolean', description: 'The comics link to each other' }
+      }
+    }]
+  },
+  ComicBatch: {
+    type: 'object',
+    required: ['comics', 'missing'],
+    properties: {
+      comics: arrayOf({ allOf: [ref('Comic'), { type: 'object', properties: { translated: { type: 'boolean' } } }] }),
+      missing: arrayOf({ type: 'integer' })
+    }
+  },
+  CalendarYear: {
+    type: 'object',
+    properties: {
+      year: { type: 'integer' },
+      count: { type: 'integer' },
+      months: arrayOf({
+        type: 'object',
+        properties: { month: { type: 'integer' }, count: { type: 'integer' } }
+      })
+    }
+  },
+  WhatIf: {
+    type: 'object',
+    required: ['num', 'title', 'url'],
+    properties: {
+      num: { type: 'integer' },
+      title: { type: 'string' },
+      url: { type: 'string', format: 'uri' },
+      date: { type: 'string' },
+      ...whatIfContentProperties
+    }
+  },
+  WhatIfImage: {
+    type: 'object',
+    required: ['kind', 'src', 'title', 'width', 'height'],
+    properties: {
+      kind: { type: 'string', enum: ['thumbnail', 'illustration'] },
+      src: { type: 'string', format: 'uri' },
+      title: { type: 'string', description: 'Hover text of an illustration' },
+      width: nullable('integer'),
+      height: nullable('integer')
+    }
+  },
+  WhatIfSearchResult: {
+    allOf: [ref('WhatIf'), {
+      type: 'object',
+      properties: {
+        snippet: { type: 'string', description: 'Matched text with <mark> highlights' },
+        score: { type: 'number', description: 'bm25 score, lower is more relevant' }
+      }
+    }]
+  },
+  WhatIfCursorPage: {
+    type: 'object',
+    required: ['items', 'next', 'prev'],
+    properties: {
+      items: arrayOf(ref('WhatIf')),
+      next: nullable('string'),
+      prev: nullable('string')
+    }
+  },
+  LocalizedComic: {
+    type: 'object',
+    required: ['num', 'title', 'img'],
+    properties: {
+      num: { type: 'integer' },
+      title: { type: 'string' },
+      alt: { type: 'string' },
+      img: { type: 'string' },
+      transcript: nullable('string'),
+      source_url: nullable('string'),
+      original_title: { type: 'string', description: 'Search results only' },
+      snippet: { type: 'string', description: 'Search results only' }
+    }
+  },
+  ThumbUp: {
+    type: 'object',
+    required: ['thumbCount', 'num', 'liked', 'changed'],
+    properties: {
+      thumbCount: { type: 'integer' },
+      num: { type: 'integer' },
+      liked: { type: 'boolean', description: 'Whether this client now likes the item' },
+      changed: { type: 'boolean', description: 'false when the request repeated the client\'s current state' }
+    }
+  },
+  TopItem: {
+    type: 'object',
+    required: ['num'],
+    properties: { num: { type: 'integer' } }
+  },
+  LocalizedThumbUp: {
+    allOf: [ref('ThumbUp'), {
+      type: 'object',
+      required: ['totalThumbCount', 'locale'],
+      properties: { totalThumbCount: totalThumbCountProperty, locale: { type: 'string' } }
+    }]
+  },
+  Favorite: {
+    type: 'object',
+    required: ['num', 'comic_type', 'deleted', 'updated_at', 'version'],
+    properties: {
+      num: { type: 'integer' },
+      comic_type: { type: 'string', enum: ['comic', 'what_if'] },
+      deleted: { type: 'boolean', description: 'true for a removed favorite (sync only)' },
+      updated_at: { type: 'integer', description: 'Time of the winning edit (ms since epoch)' },
+      version: { type: 'integer', description: 'Position of this change in the list\'s history' }
+    }
+  },
+  FavoriteChange: {
+    allOf: [ref('Favorite'), {
+      type: 'object',
+      required: ['changed'],
+      properties: { changed: { type: 'boolean', description: 'false when the item already had this state, or a newer edit won' } }
+    }]
+  },
+  SeenRanges: {
+    type: 'object',
+    required: ['comic_type', 'seen', 'seenCount'],
+    properties: {
+      comic_type: { type: 'string', enum: ['comic', 'what_if'] },
+      seen: { type: 'array', items: { type: 'array', items: { type: 'integer' }, minItems: 2, maxItems: 2 }, description: 'Seen nums as sorted [first, last] ranges' },
+      seenCount: { type: 'integer' }
+    }
+  },
+  ReadProgress: {
+    allOf: [ref('SeenRanges'), {
+      type: 'object',
+      required: ['unread', 'latest'],
+      properties: {
+        unread: { type: 'integer', description: 'Stored items above since that were not seen' },
+        latest: { type: 'integer', description: 'Newest stored num' }
+      }
+    }]
+  },
+  TopComic: {
+    allOf: [ref('Comic'), { type: 'object', required: ['thumbCount', 'totalThumbCount', 'rank'], properties: { ...topProperties, totalThumbCount: totalThumbCountProperty } }]
+  },
+  TopLocalizedComic: {
+    allOf: [ref('LocalizedComic'), { type: 'object', required: ['thumbCount', 'totalThumbCount', 'rank'], properties: { ...topProperties, totalThumbCount: totalThumbCountProperty } }]
+  },
+  TopWhatIf: {
+    allOf: [ref('WhatIf'), { type: 'object', required: ['thumbCount', 'rank'], properties: topProperties }]
+  },
+  Ping: {
+    type: 'object',
+    properties: { status: { type: 'string' }, timestamp: { type: 'string' }, service: { type: 'string' } }
+  },
+  // v2
+  ApiError: {
+    type: 'object',
+    required: ['code', 'message'],
+    properties: {
+      code: { type: 'string', enum: ['bad_request', 'validation_error', 'not_found', 'internal_error', 'unavailable'] },
+      message: { type: 'string' },
+      details: arrayOf(ref('FieldError'))
+    }
+  },
+  ApiMeta: {
+    type: 'object',
+    properties: {
+      pagination: ref('PaginationMeta')
+    },
+    additionalProperties: true
+  },
+  PaginationMeta: {
+    type: 'object',
+    required: ['size', 'hasMore'],
+    properties: {
+      size: { type: 'integer' },
+      hasMore: { type: 'boolean' },
+      next: nullable('string'),
+      prev: nullable('string'),
+      offset: { type: 'integer' },
+      total: { type: 'integer' }
+    }
+  },
+  ErrorEnvelope: {
+    type: 'object',
+    required: ['data', 'meta', 'error'],
+    properties: {
+      data: { type: 'null' },
+      meta: { type: 'object' },
+      error: ref('ApiError')
+    }
+  },
+  ComicDto: {
+    type: 'object',
+    required: ['num', 'title', 'alt', 'img', 'width', 'height', 'date'],
+    properties: {
+      num: { type: 'integer' },
+      title: { type: 'string' },
+      alt: { type: 'string' },
+      img: { type: 'string' },
+      width: nullable('integer'),
+      height: nullable('integer'),
+      date: { ...nullable('string'), format: 'date' },
+      safeTitle: { type: 'string', description: 'Only with ?full=1' },
+      transcript: { type: 'string', description: 'Only with ?full=1' },
+      link: { type: 'string', description: 'Only with ?full=1' },
+      news: { type: 'string', description: 'Only with ?full=1' },
+      updatedAt: { type: 'string', description: 'Only with ?full=1' },
+      translated: { type: 'boolean', description: 'Only when a locale overlay was requested' }
+    }
+  },
+  ComicSearchResultDto: {
+    allOf: [ref('ComicDto'), {
+      type: 'object',
+      properties: { snippet: { type: 'string' }, score: { type: 'number' } }
+    }]
+  },
+  WhatIfDto: {
+    type: 'object',
+    required: ['num', 'title', 'url', 'date'],
+    properties: {
+      num: { type: 'integer' },
+      title: { type: 'string' },
+      url: { type: 'string' },
+      date: nullable('string'),
+      ...whatIfContentProperties
+    }
+  },
+  LocalizedComicDto: {
+    type: 'object',
+    required: ['num', 'locale', 'title', 'alt', 'img', 'sourceUrl'],
+    properties: {
+      num: { type: 'integer' },
+      locale: { type: 'string' },
+      title: { type: 'string' },
+      alt: { type: 'string' },
+      img: { type: 'string' },
+      sourceUrl: nullable('string'),
+      originalTitle: { ...nullable('string'), description: 'Search results only' },
+      snippet: { type: 'string', description: 'Search results only' }
+    }
+  }
+};
+
+const API_DESCRIPTION = [
+  'Unofficial xkcd / What If API.',
+  '',
+  'Paths are listed as served on workers.dev. On API_HOSTNAME the comic and What If routes are',
+  'served under `/xkcd` (e.g. `/xkcd/xkcd-list`), localized routes are served at the root of',
+  'LOCALIZED_HOSTNAME, and `/v2` is available on every host.',
+  '',
+  `Comic field selection (\`fields=\`) accepts: num, ${COMIC_FIELDS.filter(field => field !== 'id').join(', ')}.`
+].join('\n');
+
+function toParameterSchema(param: ParamSchema): JsonSchema {
+  const schema: JsonSchema = { type: param.type === 'locale' ? 'string' : param.type };
+  if (param.type === 'locale' && !param.lenient) schema.enum = [...SUPPORTED_LANGUAGES];
+  if (param.minimum !== undefined) schema.minimum = param.minimum;
+  if (param.maximum !== undefined) schema.maximum = param.maximum;
+  if (param.enum) schema.enum = [...param.enum];
+  if (param.pattern) schema.pattern = `^(?:${param.pattern})$`;
+  if (param.default !== undefined) schema.default = param.default;
+  if (param.type === 'boolean') {
+    // Flags are sent as 0/1 rather than JSON booleans
+    schema.type = 'string';
+    schema.enum = ['0', '1'];
+  }
+  return schema;
+}
+
+function toOperation(route: RouteSchema): JsonSchema {
+  const parameters = (['path', 'query'] as const).flatMap(location =>
+    Object.entries(route.params?.[location] || {}).map(([name, param]) => ({
+      name,
+      in: location,
+      required: location === 'path' ? true : !!param.required,
+      ...(param.description ? { description: param.description } : {}),
+      ...(param.allowEmpty ? { allowEmptyValue: true } : {}),
+      schema: toParameterSchema(param)
+    }))
+  );
+
+  const operation: JsonSchema = {
+    summary: route.summary,
+    tags: route.tags,
+    operationId: `${route.method}${route.path.replace(/[^a-zA-Z0-9]+(.)?/g, (_, next) => (next ? next.toUpperCase() : ''))}`
+  };
+  if (route.description) operation.description = route.description;
+  if (parameters.length > 0) operation.parameters = parameters;
+
+  const form = route.params?.form;
+  if (form) {
+    const properties: Record<string, JsonSchema> = {};
+    for (const [name, param] of Object.entries(form)) {
+      properties[name] = { ...toParameterSchema(param), ...(param.description ? { description: param.description } : {}) };
+    }
+    const required = Object.entries(form).filter(([, param]) => param.required).map(([name]) => name);
+    operation.requestBody = {
+      required: required.length > 0,
+      content: {
+        'application/x-www-form-urlencoded': {
+          schema: { type: 'object', properties, ...(required.length > 0 ? { required } : {}) }
+        }
+      }
+    };
+  }
+
+  const errorSchema = route.envelope ? ref('ErrorEnvelope') : ref('Error');
+  const responses: Record<string, JsonSchema> = {};
+  const statuses = { ...route.responses } as Record<number, RouteSchema['responses'][number]>;
+  if (route.params && !statuses[400]) statuses[400] = { description: 'Invalid parameters' };
+  if (!statuses[500]) statuses[500] = { description: 'Internal error' };
+
+  for (const [status, response] of Object.entries(statuses)) {
+    const isError = Number(status) >= 400;
+    const schema = response.schema || (isError ? errorSchema : undefined);
+    const entry: JsonSchema = { description: response.description };
+    if (schema) entry.content = { [response.contentType || 'application/json']: { schema } };
+    if (response.headers) {
+      entry.headers = Object.fromEntries(Object.entries(response.headers).map(([name, description]) => [
+        name,
+        { description, schema: { type: 'string' } }
+      ]));
+    }
+    responses[status] = entry;
+  }
+  operation.responses = responses;
+  return operation;
+}
+
+/**
+ * Build the OpenAPI document for the given routes
+ * @param serverUrl - Origin the document was requested from
+ */
+export function buildOpenApiDocument(routes: readonly RouteSchema[], serverUrl: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const route of routes) {
+    if (route.hidden) continue;
+    paths[route.path] = paths[route.path] || {};
+    paths[route.path][route.method] = toOperation(route);
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'xkcd-serverless API',
+      version: '2.0.0',
+      description: API_DESCRIPTION
+    },
+    servers: [{ url: serverUrl }],
+    tags: [
+      { name: 'xkcd', description: 'Comics (v1)' },
+      { name: 'what-if', description: 'What If articles (v1)' },
+      { name: 'localized', description: 'Translated comics (v1)' },
+      { name: 'favorites', description: 'Favorites synced between devices (v1)' },
+      { name: 'progress', description: 'Read progress synced between devices (v1)' },
+      { name: 'v2', description: 'Enveloped API: { data, meta, error }' },
+      { name: 'system', description: 'Health and documentation' }
+    ],
+    paths,
+    components: { schemas: COMPONENT_SCHEMAS }
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Parameter limits and parsing helpers shared by v1 and v2 route schemas
+ */
+
+import { ComicDateFilter } from '../types';
+
+// Upper bounds for page sizes, enforced by the route schemas (src/routes/schemas.ts)
+export const MAX_LIST_SIZE = 500;   // list and archive pages
+export const MAX_SEARCH_SIZE = 50;  // search and suggest results
+export const MAX_TOP_SIZE = 100;    // top liked rankings
+export const MAX_LOG_SIZE = 200;    // crawler logs
+export const MAX_RANDOM_COUNT = 50; // random picks per request
+export const MAX_OFFLINE_ARTICLES = 20; // What If articles per offline ZIP
+export const MAX_OFFLINE_IMAGES = 40; // Images inlined per offline response, below the 50 subrequest limit; the rest stay remote
+
+/**
+ * Build a date filter from parsed year/month/day values
+ * The route schema already enforces ranges and that month requires year and day requires month
+ */
+export function toDateFilter({ year, month, day }: { year?: number; month?: number; day?: number }): ComicDateFilter | undefined {
+  return year === undefined ? undefined : { year, month, day };
+}
+
+/**
+ * Whether no more comics can be published inside the filtered period
+ */
+export function isDateFilterClosed(filter: ComicDateFilter, now: Date = new Date()): boolean {
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth() + 1;
+  if (filter.year !== year) return filter.year < year;
+  if (filter.month === undefined) return false;
+  if (filter.month !== month) return filter.month < month;
+  return filter.day !== undefined && filter.day < now.getUTCDate();
+}
+
+// Upper bound for batch lookups; the GET form is also limited by URL length
+export const MAX_BATCH_IDS = 500;
+
+/**
+ * Parse a comma-separated id list, dropping duplicates but keeping the requested order
+ * @param max - Most ids allowed
+ */
+export function parseIdList(value: string | null, max: number = MAX_BATCH_IDS): { ids?: number[]; error?: string } {
+  if (!value || !value.trim()) return { error: 'Missing required parameter: ids' };
+  const ids: number[] = [];
+  for (const part of value.split(',')) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+    const id = Number(trimmed);
+    if (!Number.isInteger(id) || id <= 0) return { error: `Invalid id: ${trimmed}` };
+    if (!ids.includes(id)) ids.push(id);
+  }
+  if (ids.length === 0) return { error: 'Missing required parameter: ids' };
+  if (ids.length > max) return { error: `Too many ids, maximum is ${max}` };
+  return { ids };
+}
+
+// Longest month lengths (February 29 exists in leap years)
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Parse an MM-DD calendar day
+ */
+export function parseMonthDay(value: string): { value?: { month: number; day: number }; error?: string } {
+  const match = value.match(/^(\d{1,2})-(\d{1,2})$/);
+  if (!match) return { error: 'must be MM-DD' };
+  const month = parseInt(match[1]);
+  const day = parseInt(match[2]);
+  if (month < 1 || month > 12 || day < 1 || day > DAYS_IN_MONTH[month - 1]) return { error: 'must be a valid MM-DD day' };
+  return { value: { month, day } };
+}
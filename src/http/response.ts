@@ -1,3 +1,5 @@
+import { ApiMeta, ApiResponse, FieldError } from '../types';
+
 export function createJsonResponse(data: any, status: number = 200): Response {
   return new Response(JSON.stringify(data), {
     status,
@@ -5,13 +7,52 @@ export function createJsonResponse(data: any, status: number = 200): Response {
       'Content-Type': 'application/json',
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-None-Match, If-Modified-Since, X-Device-Id'
     }
   });
 }
 
+// Machine-readable error codes for v2 errors ({ error: { code, message } }); v1 errors stay { error }
+const ERROR_CODES: Record<number, string> = {
+  400: 'bad_request',
+  404: 'not_found',
+  500: 'internal_error',
+  503: 'unavailable'
+};
+
 export function createErrorResponse(message: string, status: number = 500): Response {
   return createJsonResponse({ error: message }, status);
 }
 
+// Helper function to convert id to num in response objects (v1 response shape)
+export function convertIdToNum(obj: any): any {
+  if (obj && typeof obj === 'object') {
+    if (Array.isArray(obj)) {
+      return obj.map(convertIdToNum);
+    } else {
+      const converted = { ...obj };
+      if ('id' in converted) {
+        converted.num = converted.id;
+        delete converted.id;
+      }
+      return converted;
+    }
+  }
+  return obj;
+}
 
+/**
+ * v2 success response: { data, meta, error: null }
+ */
+export function createEnvelopeResponse<T>(data: T, meta: ApiMeta = {}, status: number = 200): Response {
+  const body: ApiResponse<T> = { data, meta, error: null };
+  return createJsonResponse(body, status);
+}
+
+/**
+ * v2 error response: { data: null, meta: {}, error: { code, message, details? } }
+ */
+export function createEnvelopeError(message: string, status: number = 500, code: string = ERROR_CODES[status] || 'error', details?: FieldError[]): Response {
+  const body: ApiResponse<null> = { data: null, meta: {}, error: details ? { code, message, details } : { code, message } };
+  return createJsonResponse(body, status);
+}
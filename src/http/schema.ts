@@ -0,0 +1,197 @@
+/**
+ * Declarative route schemas
+ *
+ * A RouteSchema describes a route's path, query and form parameters and its
+ * responses. The same object drives request parsing (validateRequest, used
+ * as itty-router middleware in front of the handler) and the generated
+ * OpenAPI document (see src/http/openapi.ts).
+ *
+ * validateRequest rejects malformed requests with a 400 validation_error and
+ * stores the parsed, typed values on request.input for the handler.
+ */
+
+import { createEnvelopeError, createJsonResponse } from './response';
+import { parseLocale, resolveLocale, SUPPORTED_LANGUAGES } from '../i18n/locale';
+import { FieldError, ParamLocation } from '../types';
+
+export interface ParamSchema {
+  /** locale values are normalised to a SupportedLanguage (zh_CN -> zh-cn) */
+  type: 'integer' | 'string' | 'boolean' | 'locale';
+  description?: string;
+  required?: boolean;
+  minimum?: number;
+  maximum?: number;
+  enum?: readonly string[];
+  /** Regular expression the whole value must match (strings only) */
+  pattern?: string;
+  default?: string | number | boolean;
+  /** Allow an empty value, e.g. `cursor=` to start cursor pagination */
+  allowEmpty?: boolean;
+  /** Only valid together with this other parameter of the same location, e.g. month requires year */
+  requires?: string;
+  /** locale only: unknown values fall back to zh-cn instead of being rejected (v1 behaviour) */
+  lenient?: boolean;
+  /** Further parsing of string values, e.g. comma-separated lists; an error rejects the request */
+  parse?: (value: string) => { value?: unknown; error?: string };
+}
+
+/** Parsed parameter values by name, stored on request.input by validateRequest */
+export type ParamValues = Record<string, any>;
+
+/** JSON Schema subset used for documentation of response bodies */
+export type JsonSchema = Record<string, unknown>;
+
+export interface ResponseSchema {
+  description: string;
+  schema?: JsonSchema;
+  contentType?: string;
+  /** Response headers worth documenting, e.g. X-Pagination-* */
+  headers?: Record<string, string>;
+}
+
+export interface RouteSchema {
+  method: 'get' | 'post';
+  /** Path as served by the default (workers.dev) router, OpenAPI style: /what-if/{id} */
+  path: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  params?: Partial<Record<ParamLocation, Record<string, ParamSchema>>>;
+  responses: Record<number, ResponseSchema>;
+  /** v2 routes report validation errors in the { data, meta, error } envelope */
+  envelope?: boolean;
+  /** Served but left out of /openapi.json (e.g. host-specific duplicates of a documented path) */
+  hidden?: boolean;
+}
+
+// Flags follow the existing `reversed=1` convention
+const BOOLEAN_VALUES = ['0', '1'];
+
+/**
+ * Parse a single raw parameter value against its schema
+ * Missing values take the schema default; missing booleans are false
+ */
+export function parseParam(value: string | null | undefined, schema: ParamSchema): { value?: unknown; error?: string } {
+  if (value === null || value === undefined) {
+    if (schema.required) return { error: 'is required' };
+    if (schema.default !== undefined) return parseParam(String(schema.default), { ...schema, default: undefined });
+    return { value: schema.type === 'boolean' ? false : undefined };
+  }
+  if (value === '') {
+    if (!schema.allowEmpty) return { error: schema.required ? 'is required' : 'must not be empty' };
+    // Lenient locales resolve an empty value to the fallback like any unknown one
+    if (!schema.lenient) return { value };
+  }
+
+  switch (schema.type) {
+    case 'integer': {
+      if (!/^-?\d+$/.test(value)) return { error: 'must be an integer' };
+      const number = parseInt(value);
+      if (schema.minimum !== undefined && number < schema.minimum) return { error: `must be >= ${schema.minimum}` };
+      if (schema.maximum !== undefined && number > schema.maximum) return { error: `must be <= ${schema.maximum}` };
+      return { value: number };
+    }
+    case 'boolean':
+      return BOOLEAN_VALUES.includes(value) ? { value: value === '1' } : { error: `must be one of ${BOOLEAN_VALUES.join(', ')}` };
+    case 'locale': {
+      const locale = schema.lenient ? resolveLocale(value) : parseLocale(value);
+      return locale ? { value: locale } : { error: `must be one of ${SUPPORTED_LANGUAGES.join(', ')}` };
+    }
+    case 'string':
+      if (schema.enum && !schema.enum.includes(value)) return { error: `must be one of ${schema.enum.join(', ')}` };
+      if (schema.pattern && !new RegExp(`^(?:${schema.pattern})$`).test(value)) return { error: `must match ${schema.pattern}` };
+      return schema.parse ? schema.parse(value) : { value };
+  }
+}
+
+/**
+ * Check a single raw parameter value against its schema
+ * @returns An error message, or null if the value is acceptable
+ */
+export function checkParam(value: string | null | undefined, schema: ParamSchema): string | null {
+  return parseParam(value, schema).error || null;
+}
+
+/**
+ * Parse path, query and form parameters of a request against a route schema
+ * Unknown query parameters are ignored so cache-busting parameters keep working
+ */
+export async function parseRequest(schema: RouteSchema, request: Request & { params?: Record<string, string> }): Promise<{ values: ParamValues; errors: FieldError[] }> {
+  const values: ParamValues = {};
+  const errors: FieldError[] = [];
+  const parse = (location: ParamLocation, read: (name: string) => string | null | undefined) => {
+    const params = schema.params?.[location] || {};
+    for (const [name, param] of Object.entries(params)) {
+      const raw = read(name);
+      const { value, error } = parseParam(raw, param);
+      if (error) {
+        errors.push({ in: location, name, message: error });
+      } else if (raw !== null && raw !== undefined && param.requires && read(param.requires) == null) {
+        errors.push({ in: location, name, message: `requires ${param.requires}` });
+      } else {
+        values[name] = value;
+      }
+    }
+  };
+
+  parse('path', name => {
+    const value = request.params?.[name];
+    if (value === undefined) return undefined;
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  });
+
+  const url = new URL(request.url);
+  parse('query', name => url.searchParams.get(name));
+
+  if (schema.params?.form) {
+    let form: FormData | null = null;
+    try {
+      // Clone so the handler can still read the body
+      form = await request.clone().formData();
+    } catch {
+      errors.push({ in: 'form', name: 'body', message: 'must be application/x-www-form-urlencoded or multipart/form-data' });
+    }
+    if (form) parse('form', name => form!.get(name) as string | null);
+  }
+  return { values, errors };
+}
+
+/**
+ * Validate path, query and form parameters of a request against a route schema
+ */
+export async function collectFieldErrors(schema: RouteSchema, request: Request & { params?: Record<string, string> }): Promise<FieldError[]> {
+  return (await parseRequest(schema, request)).errors;
+}
+
+/**
+ * Parsed parameters of a request that went through validateRequest
+ */
+export function getInput(request: Request): ParamValues {
+  return (request as Request & { input?: ParamValues }).input || {};
+}
+
+/**
+ * Build an itty-router middleware that rejects requests not matching the schema with a 400
+ * v1 responds with { error, code, details }, v2 with an envelope whose error carries the details
+ * On success the parsed values are available to the handler as request.input
+ */
+export function validateRequest(schema: RouteSchema) {
+  // Extra arguments (env, ctx, { db }) are passed through by itty-router and unused here
+  return async (request: any, ...args: any[]): Promise<Response | undefined> => {
+    const { values, errors } = await parseRequest(schema, request);
+    if (errors.length === 0) {
+      request.input = values;
+      return undefined;
+    }
+
+    const message = errors.map(error => `${error.name}: ${error.message}`).join('; ');
+    if (schema.envelope) {
+      return createEnvelopeError(message, 400, 'validation_error', errors);
+    }
+    return createJsonResponse({ error: message, details: errors }, 400);
+  };
+}
@@ -1,13 +1,24 @@
 import { SupportedLanguage } from '../types';
 
+export const SUPPORTED_LANGUAGES: SupportedLanguage[] = ['zh-cn', 'zh-tw', 'es', 'fr', 'de', 'ru'];
+
+const LOCALE_ALIASES: Record<string, SupportedLanguage> = {
+  'zh': 'zh-cn', 'zh-cn': 'zh-cn', 'zh_cn': 'zh-cn',
+  'zh-tw': 'zh-tw', 'zh_tw': 'zh-tw',
+  'es': 'es', 'fr': 'fr', 'de': 'de', 'ru': 'ru'
+};
+
 export function resolveLocale(param: string | null): SupportedLanguage {
   const value = (param || 'zh-CN').toLowerCase();
-  const mapping: Record<string, SupportedLanguage> = {
-    'zh': 'zh-cn', 'zh-cn': 'zh-cn', 'zh_cn': 'zh-cn',
-    'zh-tw': 'zh-tw', 'zh_tw': 'zh-tw',
-    'es': 'es', 'fr': 'fr', 'de': 'de', 'ru': 'ru'
-  };
-  return mapping[value] || 'zh-cn';
+  return LOCALE_ALIASES[value] || 'zh-cn';
+}
+
+/**
+ * Strict variant of resolveLocale: unknown values return null instead of falling back to zh-cn
+ */
+export function parseLocale(param: string | null): SupportedLanguage | null {
+  if (!param) return null;
+  return LOCALE_ALIASES[param.toLowerCase()] || null;
 }
 
 
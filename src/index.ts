@@ -1,16 +1,22 @@
 import { Router } from 'itty-router';
 import { Database } from './database';
-import { createErrorResponse } from './http/response';
+import { createErrorResponse, createEnvelopeError } from './http/response';
 import { XkcdCrawler } from './crawlers/xkcd';
 import { WhatIfCrawler } from './crawlers/whatif';
 import { registerHealthRoutes } from './routes/health';
 import { registerXkcdRoutes } from './routes/xkcd';
 import { registerWhatIfRoutes } from './routes/whatif';
 import { registerLocalizedRoutes } from './routes/localized';
+import { registerFavoritesRoutes } from './routes/favorites';
+import { registerReadProgressRoutes } from './routes/progress';
 import { registerAdminRoutes } from './routes/admin';
 import { registerCrawlerRoutes } from './routes/crawler';
 import { registerViewerRoutes } from './routes/viewer';
+import { registerV2Routes } from './routes/v2';
+import { registerDocsRoutes } from './routes/docs';
 import { CRAWLER_WORKFLOW_RETENTION } from './workflows/retention';
+import { rollupLikes } from './likes/ranking';
+import { runDailyComic } from './daily/pick';
 
 // Export Workflows
 export { ZhCnCrawlerWorkflow } from './workflows/zh_cn_crawler';
@@ -19,24 +25,35 @@ export { ZhTwCrawlerWorkflow } from './workflows/zh_tw_crawler';
 export { RuCrawlerWorkflow } from './workflows/ru_crawler';
 export { DeCrawlerWorkflow } from './workflows/de_crawler';
 export { EsCrawlerWorkflow } from './workflows/es_crawler';
+export { LikeCoalescer } from './likes/coalescer';
 
 // Create API router for API domains
 const apiRouter = Router({ base: '/xkcd' });
 registerHealthRoutes(apiRouter);
+registerDocsRoutes(apiRouter);
 registerXkcdRoutes(apiRouter);
 registerWhatIfRoutes(apiRouter);
+registerFavoritesRoutes(apiRouter);
+registerReadProgressRoutes(apiRouter);
 
 // Create localized router for localized domains
 const localizedRouter = Router();
 registerHealthRoutes(localizedRouter);
 registerLocalizedRoutes(localizedRouter);
 
+// Create v2 router (uniform { data, meta, error } envelope; served on every hostname)
+const v2Router = Router({ base: '/v2' });
+registerV2Routes(v2Router);
+
 // Create main router (default for workers.dev)
 const mainRouter = Router();
 registerHealthRoutes(mainRouter);
+registerDocsRoutes(mainRouter);
 registerXkcdRoutes(mainRouter);
 registerWhatIfRoutes(mainRouter);
 registerLocalizedRoutes(mainRouter);
+registerFavoritesRoutes(mainRouter);
+registerReadProgressRoutes(mainRouter);
 registerAdminRoutes(mainRouter);
 registerCrawlerRoutes(mainRouter);
 registerViewerRoutes(mainRouter);
@@ -54,7 +71,7 @@ const corsHandler = () => {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, If-None-Match, If-Modified-Since, X-Device-Id'
     }
   });
 };
@@ -62,6 +79,7 @@ const corsHandler = () => {
 apiRouter.options('*', corsHandler);
 localizedRouter.options('*', corsHandler);
 mainRouter.options('*', corsHandler);
+v2Router.options('*', corsHandler);
 
 // ============================================================================
 // 404 HANDLER
@@ -77,6 +95,7 @@ const notFoundHandler = () => {
 apiRouter.all('*', notFoundHandler);
 localizedRouter.all('*', notFoundHandler);
 mainRouter.all('*', notFoundHandler);
+v2Router.all('*', () => createEnvelopeError('Not Found - The requested resource was not found', 404));
 
 // ============================================================================
 // MAIN EXPORT
@@ -99,7 +118,10 @@ export default {
       const apiHostname = env.API_HOSTNAME;
       const localizedHostname = env.LOCALIZED_HOSTNAME;
       
-      if (hostname === apiHostname && url.pathname.startsWith('/xkcd')) {
+      if (url.pathname === '/v2' || url.pathname.startsWith('/v2/')) {
+        // */v2/* -> v2Router (all content types, enveloped responses)
+        return v2Router.handle(request, env, ctx, { db });
+      } else if (hostname === apiHostname && url.pathname.startsWith('/xkcd')) {
         // api_hostname/xkcd/* -> apiRouter (XKCD + What If)
         return apiRouter.handle(request, env, ctx, { db });
       } else if (hostname === localizedHostname) {
@@ -139,6 +161,11 @@ export default {
           });
           console.log('zh-CN Workflow started:', instance.id);
         }
+
+        // Trending scores once per hour (half past, away from the zh-CN start)
+        if (minute === 30) {
+          ctx.waitUntil(rollupLikes(db).catch(error => console.error('Error in like rollup:', error)));
+        }
       }
 
       // Daily dispatcher: What If + localized dailies (fr, zh-tw)
@@ -147,6 +174,12 @@ export default {
         const whatIfCrawler = new WhatIfCrawler(db, env);
         ctx.waitUntil(whatIfCrawler.crawl());
 
+        // Like rollup: rebuild daily buckets, prune old days, refresh trending
+        ctx.waitUntil(rollupLikes(db, { full: true }).catch(error => console.error('Error in like rollup:', error)));
+
+        // Comic of the day (optional DAILY_FCM_TOPIC push)
+        ctx.waitUntil(runDailyComic(db, env).catch(error => console.error('Error in comic of the day:', error)));
+
         // fr daily
         if (env.FR_CRAWLER) {
           const frInstance = await env.FR_CRAWLER.create({
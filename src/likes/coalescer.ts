@@ -0,0 +1,115 @@
+import { DurableObject } from 'cloudflare:workers';
+import { Database } from '../database';
+import { LikeLocale, LikeResult } from '../types';
+
+// Buffered changes of an item are written to D1 at most this often
+const FLUSH_DELAY_MS = 2000;
+
+// Changes written per D1 batch (three statements each); the rest wait for the next flush
+const MAX_FLUSH_CHANGES = 100;
+
+interface PendingLike {
+  liked: boolean;
+  // When the client (un)liked the item (ms)
+  time: number;
+}
+
+interface CoalescerState {
+  comicId: number;
+  comicType: 'comic' | 'what_if';
+  locale: LikeLocale;
+  // like_counts.count including the pending changes
+  count: number;
+  // Latest unwritten like (liked = true) or unlike per client hash
+  pending: Record<string, PendingLike>;
+}
+
+/**
+ * Like counter write buffer, one instance per item and locale (see getLikeCoalescer)
+ *
+ * Every like of the item goes through its instance, which deduplicates it against
+ * the pending changes and like_events and buffers it, so a burst of likes on a new
+ * comic becomes one D1 batch per flush instead of one write per like. A flush
+ * writes each like_events row together with its count (see Database.applyLikeChanges),
+ * so the aggregates never drift from like_events.
+ * The state lives in Durable Object storage, so buffered likes survive eviction.
+ */
+export class LikeCoalescer extends DurableObject<{ DB: D1Database }> {
+  private state?: CoalescerState;
+  // Changes being written by the running flush
+  private flushing: Record<string, PendingLike> = {};
+
+  /**
+   * Buffer a like (liked = true) or unlike of one client
+   * @returns The item's count including buffered changes, and whether the client's like changed
+   */
+  async apply(comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale, clientHash: string, liked: boolean): Promise<LikeResult> {
+    const state = await this.load(comicId, comicType, locale);
+    let current = this.getBuffered(clientHash);
+    if (current === undefined) {
+      const stored = await new Database(this.env.DB).hasLikeEvent(clientHash, comicId, comicType, locale);
+      // A change from the same client may have been buffered while D1 was read
+      current = this.getBuffered(clientHash) ?? stored;
+    }
+    if (current === liked) return { count: state.count, changed: false };
+
+    state.pending[clientHash] = { liked, time: Date.now() };
+    state.count = Math.max(state.count + (liked ? 1 : -1), 0);
+    await this.ctx.storage.put('state', state);
+
+    if (await this.ctx.storage.getAlarm() === null) {
+      await this.ctx.storage.setAlarm(Date.now() + FLUSH_DELAY_MS);
+    }
+    return { count: state.count, changed: true };
+  }
+
+  async getCount(comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale): Promise<number> {
+    return (await this.load(comicId, comicType, locale)).count;
+  }
+
+  /**
+   * Flush buffered changes; a failed flush puts them back and the alarm is retried
+   */
+  async alarm(): Promise<void> {
+    const state = this.state || await this.ctx.storage.get<CoalescerState>('state');
+    if (!state || Object.keys(state.pending).length === 0) return;
+    this.state = state;
+
+    // Changes arriving during the write are buffered for the next flush
+    const clients = Object.keys(state.pending).slice(0, MAX_FLUSH_CHANGES);
+    this.flushing = Object.fromEntries(clients.map(clientHash => [clientHash, state.pending[clientHash]]));
+    clients.forEach(clientHash => delete state.pending[clientHash]);
+    const countBefore = state.count;
+    try {
+      const changes = Object.entries(this.flushing).map(([clientHash, { liked, time }]) => ({ clientHash, liked, time }));
+      const { count } = await new Database(this.env.DB).applyLikeChanges(state.comicId, state.comicType, changes, state.locale);
+      state.count = Math.max(count + state.count - countBefore, 0);
+    } catch (error) {
+      // Changes buffered since are newer than the failed ones
+      state.pending = { ...this.flushing, ...state.pending };
+      throw error;
+    } finally {
+      this.flushing = {};
+      await this.ctx.storage.put('state', state);
+    }
+
+    if (Object.keys(state.pending).length > 0 && await this.ctx.storage.getAlarm() === null) {
+      await this.ctx.storage.setAlarm(Date.now() + FLUSH_DELAY_MS);
+    }
+  }
+
+  // The client's latest unwritten change, if any
+  private getBuffered(clientHash: string): boolean | undefined {
+    return (this.state?.pending[clientHash] || this.flushing[clientHash])?.liked;
+  }
+
+  private async load(comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale): Promise<CoalescerState> {
+    this.state ??= await this.ctx.storage.get<CoalescerState>('state');
+    if (!this.state) {
+      const count = await new Database(this.env.DB).getLikeCount(comicId, comicType, locale);
+      // A concurrent call may have loaded the state while D1 was read
+      this.state ??= { comicId, comicType, locale, count, pending: {} };
+    }
+    return this.state;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Like and unlike write path
+ *
+ * Each client's like is recorded once per item and locale in like_events, in the
+ * same D1 batch as the aggregate rows (like_counts, like_daily). With the
+ * LIKE_COALESCER binding configured, the changes are buffered by the LikeCoalescer
+ * Durable Object and written in one batch per flush instead.
+ */
+
+import type { Database } from '../database';
+import type { LikeCoalescer } from './coalescer';
+import { LikeLocale, LikeResult } from '../types';
+
+function getLikeCoalescer(env: any, comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale): DurableObjectStub<LikeCoalescer> | null {
+  const namespace = env?.LIKE_COALESCER as DurableObjectNamespace<LikeCoalescer> | undefined;
+  if (!namespace) return null;
+  return namespace.get(namespace.idFromName(`${comicType}:${comicId}:${locale}`));
+}
+
+async function changeLike(db: Database, env: any, clientHash: string, comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale, liked: boolean): Promise<LikeResult> {
+  const coalescer = getLikeCoalescer(env, comicId, comicType, locale);
+  if (coalescer) return coalescer.apply(comicId, comicType, locale, clientHash, liked);
+  const { changed: [changed], count } = await db.applyLikeChanges(comicId, comicType, [{ clientHash, liked, time: Date.now() }], locale);
+  return { count, changed };
+}
+
+/**
+ * Current like count, including changes still buffered by the coalescer
+ */
+export async function getLikeCount(db: Database, env: any, comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale = ''): Promise<number> {
+  const coalescer = getLikeCoalescer(env, comicId, comicType, locale);
+  if (coalescer) return coalescer.getCount(comicId, comicType, locale);
+  return db.getLikeCount(comicId, comicType, locale);
+}
+
+/**
+ * Likes of an item over every locale
+ * Only `locale` includes changes still buffered by its coalescer; the other locales
+ * are read from like_counts, so their buffered changes show up after the next flush
+ * @param count - The item's current count in `locale` (see addLike / removeLike)
+ */
+export async function getTotalLikeCount(db: Database, comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale, count: number): Promise<number> {
+  return count + await db.getLikeCountExcept(comicId, comicType, locale);
+}
+
+/**
+ * Record a like from one client; repeated likes from the same client are ignored
+ * @param clientHash - See getClientHash
+ */
+export async function addLike(db: Database, env: any, clientHash: string, comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale = ''): Promise<LikeResult> {
+  return changeLike(db, env, clientHash, comicId, comicType, locale, true);
+}
+
+/**
+ * Withdraw a client's like; a client that hasn't liked the item changes nothing
+ * The like is taken off the day it was given
+ */
+export async function removeLike(db: Database, env: any, clientHash: string, comicId: number, comicType: 'comic' | 'what_if', locale: LikeLocale = ''): Promise<LikeResult> {
+  return changeLike(db, env, clientHash, comicId, comicType, locale, false);
+}
@@ -0,0 +1,119 @@
+/**
+ * Time windows and trending scores for the top lists
+ *
+ * Like activity is bucketed per UTC day in like_daily. Windowed lists sum the
+ * buckets since the window start; trending weights each bucket by its age
+ * (exponential decay) and is precomputed into like_trending by the scheduled rollup.
+ */
+
+import type { Database } from '../database';
+import { convertIdToNum } from '../http/response';
+import { LikeLocale } from '../types';
+
+export const LIKE_WINDOWS = ['day', 'week', 'month', 'year', 'all'] as const;
+export type LikeWindow = typeof LIKE_WINDOWS[number];
+
+export const TOP_SORTS = ['thumb-up', 'trending'] as const;
+export type TopSort = typeof TOP_SORTS[number];
+
+// Days covered by each window, including today
+const WINDOW_DAYS: Record<Exclude<LikeWindow, 'all'>, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365
+};
+
+// A like loses half its trending weight every 3 days; buckets older than 30 days no longer count
+export const TRENDING_HALF_LIFE_DAYS = 3;
+export const TRENDING_HORIZON_DAYS = 30;
+
+// Daily buckets are kept slightly longer than the largest window
+export const LIKE_DAILY_RETENTION_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UTC day (YYYY-MM-DD) `daysAgo` days before `now`
+ */
+export function formatDay(now: Date, daysAgo: number = 0): string {
+  return new Date(now.getTime() - daysAgo * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * First day counted by a window, or null for `all`
+ */
+export function windowStartDay(window: LikeWindow, now: Date = new Date()): string | null {
+  if (window === 'all') return null;
+  return formatDay(now, WINDOW_DAYS[window] - 1);
+}
+
+/**
+ * Trending weight of each day within the horizon, keyed by YYYY-MM-DD (today = 1)
+ */
+export function trendingWeights(now: Date = new Date()): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (let age = 0; age < TRENDING_HORIZON_DAYS; age++) {
+    weights[formatDay(now, age)] = Math.pow(0.5, age / TRENDING_HALF_LIFE_DAYS);
+  }
+  return weights;
+}
+
+export interface TopQuery {
+  sortby: TopSort;
+  window: LikeWindow;
+  size: number;
+  offset: number;
+  // Rank likes given in one language ('' = the original comic)
+  locale?: LikeLocale;
+}
+
+/**
+ * One page of a top list: item ids best first, and the number of ranked items
+ * `window` only applies to thumb-up; trending is already weighted towards recent likes
+ */
+export async function getTopPage(
+  db: Database,
+  comicType: 'comic' | 'what_if',
+  { sortby, window, size, offset, locale = '' }: TopQuery
+): Promise<{ ids: number[], total: number }> {
+  const since = windowStartDay(window);
+  const { items, total } = sortby === 'trending'
+    ? await db.getTrendingLiked(comicType, size, offset, locale)
+    : since
+      ? await db.getTopLikedSince(comicType, since, size, offset, locale)
+      : await db.getTopLiked(comicType, size, offset, locale);
+  return { ids: items.map(item => item.comic_id), total };
+}
+
+/**
+ * Full records of a top list page with their like count (thumbCount) and 1-based rank
+ * Comics also carry totalThumbCount (all locales); with a locale the translations are returned
+ * Items deleted since they were liked are skipped without shifting the ranks of the others
+ */
+export async function expandTopPage(db: Database, comicType: 'comic' | 'what_if', ids: number[], offset: number, locale: LikeLocale = '') {
+  const records: { id: number }[] = comicType === 'what_if'
+    ? await db.getWhatIfsWithLikes(ids)
+    : locale
+      ? await db.getLocalizedComicsWithLikes(ids, locale)
+      : await db.getComicsWithLikes(ids);
+  const byId = new Map(records.map(record => [record.id, record]));
+  return ids.flatMap((id, index) => {
+    const record = byId.get(id);
+    return record ? [{ ...convertIdToNum(record), rank: offset + index + 1 }] : [];
+  });
+}
+
+/**
+ * Scheduled like rollup: refresh trending scores, and with `full` also rebuild
+ * the daily buckets from like_events (repairs drift, backfills older likes) and prune old days
+ */
+export async function rollupLikes(db: Database, options: { full?: boolean; now?: Date } = {}) {
+  const now = options.now || new Date();
+  let days = 0;
+  if (options.full) {
+    days = await db.rebuildLikeDaily(formatDay(now, LIKE_DAILY_RETENTION_DAYS - 1));
+  }
+  const trending = await db.refreshLikeTrending(trendingWeights(now));
+  return { days, trending };
+}
@@ -0,0 +1,165 @@
+/**
+ * Self-contained What If articles for offline reading
+ *
+ * An offline document is one HTML file: the sanitized answer, the footnotes as
+ * numbered endnotes linked both ways, and the images inlined as data URIs and
+ * sized from the image catalog (what_if_images) so the page doesn't reflow.
+ * Images that can't be fetched, are too large or exceed the fetch budget keep their remote URL.
+ */
+
+import offlineHtml from '../templates/whatif-offline.html';
+import type { Database } from '../database';
+import { WhatIf, WhatIfImageRecord } from '../types';
+import { escapeHtml } from '../utils/html-sanitize';
+import { MAX_OFFLINE_IMAGES } from '../http/params';
+import { ZipEntry } from './zip';
+
+// Images fetched at once per article
+const IMAGE_FETCH_CONCURRENCY = 3;
+
+// Image fetches left for a response, shared by all of its articles
+export interface ImageFetchBudget {
+  remaining: number;
+}
+
+// Larger images stay remote (What If illustrations are usually well below 200 KB)
+export const MAX_INLINE_IMAGE_BYTES = 2 * 1024 * 1024;
+
+export function getOfflineFileName(articleId: number): string {
+  return `what-if-${articleId}.html`;
+}
+
+/**
+ * Offline document of an article with content (see Database.getWhatIf with full = true)
+ * @param inlined - Data URIs by image URL, as returned by inlineImages
+ * @param catalog - The article's image catalog, for image sizes
+ */
+export function renderOfflineWhatIf(whatIf: WhatIf, inlined: Map<string, string> = new Map(), catalog: WhatIfImageRecord[] = []): string {
+  // Sanitized markup holds escaped URLs (see sanitizeHtml)
+  const dataUris = new Map([...inlined].map(([src, dataUri]) => [escapeHtml(src), dataUri]));
+  const sizes = new Map(catalog.filter(({ width, height }) => width && height).map(image => [escapeHtml(image.src), image]));
+  const withImages = (html: string) => html.replace(/<img\b[^>]*>/gi, tag => {
+    const src = tag.match(/\ssrc="([^"]*)"/)?.[1];
+    if (!src) return tag;
+    const size = sizes.get(src);
+    const dimensions = size ? ` width="${size.width}" height="${size.height}"` : '';
+    return tag.replace(/\ssrc="[^"]*"/, ` src="${dataUris.get(src) ?? src}"${dimensions}`);
+  });
+
+  const question = whatIf.question
+    ? `<blockquote class="question"><p>${escapeHtml(whatIf.question)}</p>${whatIf.asker ? `<cite>—${escapeHtml(whatIf.asker)}</cite>` : ''}</blockquote>`
+    : '';
+  const footnotes = whatIf.footnotes || [];
+  const endnotes = footnotes.length > 0
+    ? `<section class="endnotes"><h2>Notes</h2><ol>${footnotes.map(({ num, html }) =>
+      `<li id="fn-${num}" value="${num}">${withImages(html)} <a class="back" href="#ref-${num}" title="Back to the text">↩</a></li>`).join('\n')}</ol></section>`
+    : '';
+
+  const values: Record<string, string> = {
+    ARTICLE_ID: String(whatIf.id),
+    TITLE: escapeHtml(whatIf.title),
+    DATE: whatIf.date ? ` · ${escapeHtml(whatIf.date)}` : '',
+    QUESTION: question,
+    ANSWER: withImages(whatIf.answer || ''),
+    ENDNOTES: endnotes,
+    SOURCE_URL: escapeHtml(whatIf.url)
+  };
+  // One pass, so content that looks like a placeholder is left alone
+  return offlineHtml.replace(/{{([A-Z_]+)}}/g, (placeholder, key: string) => values[key] ?? placeholder);
+}
+
+/**
+ * Table of contents of an offline ZIP, linking the article files
+ */
+export function renderOfflineIndex(whatIfs: WhatIf[]): string {
+  const items = whatIfs
+    .map(({ id, title }) => `<li><a href="${getOfflineFileName(id)}">#${id}: ${escapeHtml(title)}</a></li>`)
+    .join('\n');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>What If</title>
+</head>
+<body>
+  <h1>What If</h1>
+  <ul>
+${items}
+  </ul>
+</body>
+</html>
+`;
+}
+
+/**
+ * Data URIs of the images that could be fetched, by URL
+ * Only as many images as the budget has left are fetched
+ */
+export async function inlineImages(urls: string[], budget: ImageFetchBudget = { remaining: MAX_OFFLINE_IMAGES }): Promise<Map<string, string>> {
+  const inlined = new Map<string, string>();
+  const queue = [...new Set(urls)].slice(0, budget.remaining);
+  budget.remaining -= queue.length;
+  while (queue.length > 0) {
+    const batch = queue.splice(0, IMAGE_FETCH_CONCURRENCY);
+    const dataUris = await Promise.all(batch.map(fetchDataUri));
+    batch.forEach((url, index) => {
+      if (dataUris[index]) inlined.set(url, dataUris[index]!);
+    });
+  }
+  return inlined;
+}
+
+/**
+ * Offline document of an article, with its images fetched and inlined
+ */
+export async function buildOfflineWhatIf(db: Database, whatIf: WhatIf, budget?: ImageFetchBudget): Promise<string> {
+  const [catalog, inlined] = await Promise.all([
+    db.getWhatIfImages(whatIf.id),
+    inlineImages((whatIf.images || []).map(({ src }) => src), budget)
+  ]);
+  return renderOfflineWhatIf(whatIf, inlined, catalog);
+}
+
+/**
+ * ZIP entries for articles with content: index.html, then one document per article
+ * Documents are built as the ZIP is read, so only one article's images are in memory at a time.
+ * The articles share one image fetch budget: the ZIP is streamed after the 200 has been sent,
+ * so running into the subrequest limit would cut it short
+ */
+export async function* offlineWhatIfEntries(db: Database, whatIfs: WhatIf[]): AsyncGenerator<ZipEntry> {
+  const encoder = new TextEncoder();
+  const budget: ImageFetchBudget = { remaining: MAX_OFFLINE_IMAGES };
+  yield { name: 'index.html', data: encoder.encode(renderOfflineIndex(whatIfs)) };
+  for (const whatIf of whatIfs) {
+    yield { name: getOfflineFileName(whatIf.id), data: encoder.encode(await buildOfflineWhatIf(db, whatIf, budget)) };
+  }
+}
+
+async function fetchDataUri(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const type = (response.headers.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+    // Error pages served with 200 are not images
+    if (!type.startsWith('image/')) throw new Error(`Unexpected content type ${type || '(none)'}`);
+    if (Number(response.headers.get('Content-Length')) > MAX_INLINE_IMAGE_BYTES) {
+      await response.body?.cancel();
+      return null;
+    }
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    if (bytes.length > MAX_INLINE_IMAGE_BYTES) return null;
+    return `data:${type};base64,${toBase64(bytes)}`;
+  } catch (error) {
+    console.warn(`Failed to inline image ${url}:`, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
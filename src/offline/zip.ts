@@ -0,0 +1,124 @@
+/**
+ * Streaming ZIP writer
+ *
+ * Entries are deflated one at a time (CompressionStream 'deflate-raw') and written
+ * as soon as they are ready, so a large archive never has to be held in memory.
+ * The central directory is written at the end. No ZIP64: archives stay far below
+ * 4 GB and 65535 entries.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+  modified?: Date;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const VERSION = 20; // 2.0: deflate
+const UTF8_NAMES = 0x0800;
+const DEFLATE = 8;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * ZIP archive of the entries, produced as the stream is read
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry>): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries)[Symbol.asyncIterator]();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await chunks.return?.(undefined);
+    }
+  });
+}
+
+async function* zipChunks(entries: AsyncIterable<ZipEntry>): AsyncGenerator<Uint8Array> {
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const name = new TextEncoder().encode(entry.name);
+    const compressed = await deflateRaw(entry.data);
+    const [time, date] = toDosDateTime(entry.modified ?? new Date());
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_FILE_HEADER, true);
+    local.setUint16(4, VERSION, true);
+    local.setUint16(6, UTF8_NAMES, true);
+    local.setUint16(8, DEFLATE, true);
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, compressed.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // extra field length
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    header.setUint16(4, VERSION, true); // version made by
+    header.setUint16(6, VERSION, true); // version needed
+    header.setUint16(8, UTF8_NAMES, true);
+    header.setUint16(10, DEFLATE, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, compressed.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true); // extra/comment length, disk, attributes stay 0
+    central.push(new Uint8Array(header.buffer), name);
+
+    yield new Uint8Array(local.buffer);
+    yield name;
+    yield compressed;
+    offset += 30 + name.length + compressed.length;
+  }
+
+  const directorySize = central.reduce((size, chunk) => size + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, central.length / 2, true); // entries on this disk
+  end.setUint16(10, central.length / 2, true); // entries in total
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  yield* central;
+  yield new Uint8Array(end.buffer);
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// MS-DOS time and date fields (2-second resolution, local time taken as UTC)
+function toDosDateTime(date: Date): [number, number] {
+  const year = Math.max(date.getUTCFullYear(), 1980);
+  return [
+    (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate()
+  ];
+}
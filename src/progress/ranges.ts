@@ -0,0 +1,82 @@
+/**
+ * Read progress as run-length encoded id ranges
+ *
+ * Most readers go through the archive in order, so the ids a client has seen
+ * collapse into a few [first, last] ranges: 1-2900 plus a handful of strays is
+ * stored as [[1,2900],[2950,2950]] instead of ~2900 rows. Merging two sets of
+ * ranges is a union, so progress from several devices merges in any order.
+ */
+
+import type { Database } from '../database';
+import { MAX_BATCH_IDS } from '../http/params';
+import { IdRange } from '../types';
+
+// Attempts to save progress when another device saves the same list concurrently
+const SAVE_ATTEMPTS = 3;
+
+/**
+ * Parse comma-separated ids and ranges (e.g. "1-100,105,200-210")
+ */
+export function parseIdRanges(value: string | null): { ranges?: IdRange[]; error?: string } {
+  if (!value) return { error: 'At least one id is required' };
+  const parts = value.split(',').map(part => part.trim()).filter(part => part !== '');
+  if (parts.length === 0) return { error: 'At least one id is required' };
+  if (parts.length > MAX_BATCH_IDS) return { error: `At most ${MAX_BATCH_IDS} ids or ranges allowed` };
+
+  const ranges: IdRange[] = [];
+  for (const part of parts) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+    const first = match ? parseInt(match[1]) : 0;
+    const last = match?.[2] ? parseInt(match[2]) : first;
+    if (first < 1 || last < first) return { error: `Invalid id or range: ${part}` };
+    ranges.push([first, last]);
+  }
+  return { ranges: mergeIdRanges(ranges) };
+}
+
+/**
+ * Union of ranges, sorted, with overlapping and adjacent ranges joined
+ */
+export function mergeIdRanges(...lists: IdRange[][]): IdRange[] {
+  const sorted = lists.flat().sort((a, b) => a[0] - b[0]);
+  const merged: IdRange[] = [];
+  for (const [first, last] of sorted) {
+    const previous = merged[merged.length - 1];
+    if (previous && first <= previous[1] + 1) {
+      previous[1] = Math.max(previous[1], last);
+    } else {
+      merged.push([first, last]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Number of ids covered by merged ranges
+ */
+export function countIdRanges(ranges: IdRange[]): number {
+  return ranges.reduce((sum, [first, last]) => sum + last - first + 1, 0);
+}
+
+/**
+ * Ranges a client has seen; empty when nothing was recorded
+ */
+export async function getSeenRanges(db: Database, ownerHash: string, comicType: 'comic' | 'what_if'): Promise<IdRange[]> {
+  const progress = await db.getReadProgress(ownerHash, comicType);
+  return progress ? JSON.parse(progress.ranges) : [];
+}
+
+/**
+ * Add ids to a client's read progress
+ * The stored ranges are replaced only if no other request saved them in the meantime
+ * @returns All ranges seen after the update
+ */
+export async function markSeen(db: Database, ownerHash: string, comicType: 'comic' | 'what_if', ranges: IdRange[]): Promise<IdRange[]> {
+  for (let attempt = 1; ; attempt++) {
+    const progress = await db.getReadProgress(ownerHash, comicType);
+    const seen = mergeIdRanges(progress ? JSON.parse(progress.ranges) : [], ranges);
+    if (progress && progress.ranges === JSON.stringify(seen)) return seen;
+    if (await db.saveReadProgress(ownerHash, comicType, seen, progress?.version || 0)) return seen;
+    if (attempt >= SAVE_ATTEMPTS) throw new Error('Read progress was modified concurrently');
+  }
+}
@@ -1,6 +1,14 @@
 import { Router, RouterType } from 'itty-router';
 import { createJsonResponse, createErrorResponse } from '../http/response';
 import { sendNotificationViaLambda } from '../utils/lambda-fcm';
+import { SUPPORTED_LANGUAGES } from '../i18n/locale';
+import { rollupLikes } from '../likes/ranking';
+import { indexComic } from '../search/related';
+import { getWhatIfThumbnailFallback } from '../crawlers/whatif-article';
+import { WhatIfImageRecord } from '../types';
+
+// Comics indexed per /admin/related/rebuild call
+const RELATED_REBUILD_SIZE = 200;
 
 export function registerAdminRoutes(router: RouterType) {
 
@@ -37,12 +45,14 @@ export function registerAdminRoutes(router: RouterType) {
         LIMIT 5
       `).all();
 
+      // Comic likes are kept per locale; rank by the combined count
       const topComics = await db.db.prepare(`
-        SELECT lc.comic_id, lc.count, c.title 
+        SELECT lc.comic_id, SUM(lc.count) as count, c.title 
         FROM like_counts lc 
         JOIN comics c ON lc.comic_id = c.id 
         WHERE lc.comic_type = 'comic' 
-        ORDER BY lc.count DESC 
+        GROUP BY lc.comic_id 
+        ORDER BY count DESC 
         LIMIT 5
       `).all();
 
@@ -55,6 +65,26 @@ export function registerAdminRoutes(router: RouterType) {
         LIMIT 5
       `).all();
 
+      // Trending (time-decayed) scores from the scheduled like rollup
+      const trendingComics = await db.db.prepare(`
+        SELECT lt.comic_id, SUM(lt.score) as score, c.title 
+        FROM like_trending lt 
+        JOIN comics c ON lt.comic_id = c.id 
+        WHERE lt.comic_type = 'comic' 
+        GROUP BY lt.comic_id 
+        ORDER BY score DESC 
+        LIMIT 5
+      `).all();
+
+      const trendingWhatIf = await db.db.prepare(`
+        SELECT lt.comic_id, lt.score, w.title 
+        FROM like_trending lt 
+        JOIN what_if w ON lt.comic_id = w.id 
+        WHERE lt.comic_type = 'what_if' 
+        ORDER BY lt.score DESC 
+        LIMIT 5
+      `).all();
+
       const localizedCounts = await Promise.all([
         db.db.prepare('SELECT COUNT(id) as count FROM comics_zh_cn').first(),
         db.db.prepare('SELECT COUNT(id) as count FROM comics_zh_tw').first(),
@@ -78,7 +108,11 @@ export function registerAdminRoutes(router: RouterType) {
         },
         topLiked: {
           comics: topComics.results || [],
-          whatIf: topWhatIf.results || []
+          whatIf: topWhatIf.results || [],
+          trending: {
+            comics: trendingComics.results || [],
+            whatIf: trendingWhatIf.results || []
+          }
         },
         localized: {
           'zh-cn': (localizedCounts[0] as any)?.count || 0,
@@ -98,6 +132,60 @@ export function registerAdminRoutes(router: RouterType) {
     }
   });
 
+  /**
+   * POST /admin/search/rebuild
+   * Rebuild the comics, What If and localized comics full-text indexes from their tables
+   */
+  router.post('/admin/search/rebuild', async (request, env, ctx, { db }) => {
+    try {
+      const indexed: Record<string, number> = {
+        comics: await db.rebuildComicSearchIndex(),
+        what_if: await db.rebuildWhatIfSearchIndex()
+      };
+      for (const language of SUPPORTED_LANGUAGES) {
+        indexed[language] = await db.rebuildLocalizedSearchIndex(language);
+      }
+      return createJsonResponse({ success: true, indexed, timestamp: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error in /admin/search/rebuild:', error);
+      return createErrorResponse('Failed to rebuild search index');
+    }
+  });
+
+  /**
+   * POST /admin/related/rebuild?start=1
+   * Index the terms and cross-references of up to 200 comics from `start` for /:comicId/related
+   * Call again with the returned nextStart until it is null
+   */
+  router.post('/admin/related/rebuild', async (request, env, ctx, { db }) => {
+    try {
+      const start = Math.max(parseInt(new URL(request.url).searchParams.get('start') || '') || 0, 0);
+      const comics = await db.getComicsForIndexing(start, RELATED_REBUILD_SIZE);
+      for (const comic of comics) {
+        await indexComic(db, comic);
+      }
+      const nextStart = comics.length === RELATED_REBUILD_SIZE ? comics[comics.length - 1].id + 1 : null;
+      return createJsonResponse({ success: true, indexed: comics.length, nextStart, timestamp: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error in /admin/related/rebuild:', error);
+      return createErrorResponse('Failed to rebuild related comics index');
+    }
+  });
+
+  /**
+   * POST /admin/likes/rollup
+   * Run the full like rollup now (normally daily): rebuild daily buckets and refresh trending scores
+   */
+  router.post('/admin/likes/rollup', async (request, env, ctx, { db }) => {
+    try {
+      const result = await rollupLikes(db, { full: true });
+      return createJsonResponse({ success: true, ...result, timestamp: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error in /admin/likes/rollup:', error);
+      return createErrorResponse('Failed to roll up likes');
+    }
+  });
+
   /**
    * POST /admin/fcm/test
    * Test FCM notification by sending to a specific device token
@@ -209,13 +297,15 @@ export function registerAdminRoutes(router: RouterType) {
           }
         }
 
-        // Prepare article data for notification
+        // Prepare article data for notification (the cataloged archive thumbnail when there is one)
+        const images: WhatIfImageRecord[] = await db.getWhatIfImages(article.id);
+        const thumbnail = images.find(image => image.kind === 'thumbnail');
         const articleData = {
           num: article.id,
           title: article.title,
           url: article.url,
           date: article.date,
-          featureImg: `https://what-if.xkcd.com/imgs/a/${article.id}/archive_crop.png`,
+          featureImg: thumbnail?.src || getWhatIfThumbnailFallback(article.id),
         };
 
         // Send notification to device token (bypassing FCM_ENABLED)
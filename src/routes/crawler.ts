@@ -3,6 +3,8 @@ import { createJsonResponse, createErrorResponse } from '../http/response';
 import { XkcdCrawler } from '../crawlers/xkcd';
 import { WhatIfCrawler } from '../crawlers/whatif';
 import { CRAWLER_WORKFLOW_RETENTION } from '../workflows/retention';
+import { getInput, validateRequest } from '../http/schema';
+import { CRAWLER_LOGS_ROUTE, CRAWLER_LOCALIZED_START_ROUTE } from './schemas';
 
 export function registerCrawlerRoutes(router: RouterType) {
   router.get('/crawler/xkcd/status', async (request, env, ctx, { db }) => {
@@ -27,10 +29,9 @@ export function registerCrawlerRoutes(router: RouterType) {
     }
   });
 
-  router.get('/crawler/xkcd/logs', async (request, env, ctx, { db }) => {
+  router.get('/crawler/xkcd/logs', validateRequest(CRAWLER_LOGS_ROUTE), async (request, env, ctx, { db }) => {
     try {
-      const url = new URL(request.url);
-      const limit = parseInt(url.searchParams.get('limit') || '50');
+      const { limit } = getInput(request);
       const crawler = new XkcdCrawler(db, env);
       const logs = await crawler.getLogs(limit);
       return createJsonResponse({ logs, count: logs.length, limit });
@@ -62,10 +63,9 @@ export function registerCrawlerRoutes(router: RouterType) {
     }
   });
 
-  router.get('/crawler/whatif/logs', async (request, env, ctx, { db }) => {
+  router.get('/crawler/whatif/logs', validateRequest(CRAWLER_LOGS_ROUTE), async (request, env, ctx, { db }) => {
     try {
-      const url = new URL(request.url);
-      const limit = parseInt(url.searchParams.get('limit') || '50');
+      const { limit } = getInput(request);
       const crawler = new WhatIfCrawler(db, env);
       const logs = await crawler.getLogs(limit);
       return createJsonResponse({ logs, count: logs.length, limit });
@@ -96,11 +96,12 @@ export function registerCrawlerRoutes(router: RouterType) {
   };
 
   // POST /crawler/localized/:language/start
-  router.post('/crawler/localized/:language/start', async (request, env, ctx, { db }) => {
+  router.post('/crawler/localized/:language/start', validateRequest(CRAWLER_LOCALIZED_START_ROUTE), async (request, env, ctx, { db }) => {
     try {
-      const language = request.params?.language;
+      // Normalised by the schema, e.g. zh_CN -> zh-cn
+      const { language } = getInput(request);
       
-      if (!language || !localizedCrawlers[language as keyof typeof localizedCrawlers]) {
+      if (!localizedCrawlers[language as keyof typeof localizedCrawlers]) {
         return createErrorResponse(`Invalid language. Supported: ${Object.keys(localizedCrawlers).join(', ')}`, 400);
       }
 
@@ -0,0 +1,28 @@
+import { RouterType } from 'itty-router';
+import docsHtml from '../templates/docs.html';
+import { createJsonResponse } from '../http/response';
+import { withCache } from '../http/cache';
+import { buildOpenApiDocument } from '../http/openapi';
+import { validateRequest } from '../http/schema';
+import { ROUTE_SCHEMAS, OPENAPI_ROUTE, DOCS_ROUTE } from './schemas';
+
+/**
+ * Register API documentation routes
+ */
+export function registerDocsRoutes(router: RouterType) {
+  // GET /openapi.json (generated from the route schemas)
+  router.get('/openapi.json', validateRequest(OPENAPI_ROUTE), withCache(async (request) => {
+    const url = new URL(request.url);
+    return createJsonResponse(buildOpenApiDocument(ROUTE_SCHEMAS, url.origin));
+  }, {
+    ttl: 3600,      // 1 hour edge cache (changes only on deploy)
+    browserTtl: 300 // 5 minutes browser cache
+  }));
+
+  // GET /docs (renders openapi.json from the same directory, so it also works under /xkcd)
+  router.get('/docs', validateRequest(DOCS_ROUTE), () => {
+    return new Response(docsHtml, {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    });
+  });
+}
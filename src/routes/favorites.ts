@@ -0,0 +1,82 @@
+import { RouterType } from 'itty-router';
+import { createJsonResponse, createErrorResponse } from '../http/response';
+import { getInput, validateRequest } from '../http/schema';
+import { DEVICE_ID_HEADER, getDeviceHash } from '../http/client';
+import { Database } from '../database';
+import { Favorite } from '../types';
+import { FAVORITES_LIST_ROUTE, FAVORITES_ADD_ROUTE, FAVORITES_REMOVE_ROUTE } from './schemas';
+
+function toFavoriteItem(favorite: Favorite) {
+  return {
+    num: favorite.comic_id,
+    comic_type: favorite.comic_type,
+    deleted: favorite.deleted === 1,
+    updated_at: favorite.updated_at,
+    version: favorite.version
+  };
+}
+
+async function itemExists(db: Database, comicId: number, comicType: 'comic' | 'what_if'): Promise<boolean> {
+  return comicType === 'what_if' ? !!await db.getWhatIf(comicId) : !!await db.getComic(comicId);
+}
+
+// Apply an add or remove; the newest edit of an item wins (see Database.setFavorite)
+async function editFavorite(request: Request, env: any, db: Database, deleted: boolean): Promise<Response> {
+  const ownerHash = await getDeviceHash(request, env);
+  if (!ownerHash) return createErrorResponse(`${DEVICE_ID_HEADER} header is required`, 400);
+
+  const { comic_id: comicId, comic_type: comicType, updated_at: updatedAt } = getInput(request);
+  if (!await itemExists(db, comicId, comicType)) {
+    return createErrorResponse(comicType === 'what_if' ? 'What If article not found' : 'Comic not found', 404);
+  }
+
+  // Edits dated in the future would override every later edit until then
+  const now = Date.now();
+  const { favorite, changed } = await db.setFavorite(ownerHash, comicId, comicType, deleted, Math.min(updatedAt ?? now, now));
+  return createJsonResponse({ ...toFavoriteItem(favorite), changed });
+}
+
+export function registerFavoritesRoutes(router: RouterType) {
+  // GET /favorites (?since=<X-Favorites-Version> for changes only)
+  router.get('/favorites', validateRequest(FAVORITES_LIST_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const ownerHash = await getDeviceHash(request, env);
+      if (!ownerHash) return createErrorResponse(`${DEVICE_ID_HEADER} header is required`, 400);
+
+      const { since, size } = getInput(request);
+      const { items, hasMore, version } = await db.getFavoriteChanges(ownerHash, since, size);
+
+      const response = createJsonResponse(items.map(toFavoriteItem));
+      response.headers.set('X-Favorites-Version', version.toString());
+      response.headers.set('X-Pagination-Size', size.toString());
+      response.headers.set('X-Pagination-HasMore', hasMore ? '1' : '0');
+      if (hasMore) {
+        response.headers.set('X-Pagination-NextSince', items[items.length - 1].version.toString());
+      }
+      return response;
+    } catch (error) {
+      console.error('Error in /favorites:', error);
+      return createErrorResponse('Failed to fetch favorites');
+    }
+  });
+
+  // POST /favorites/add
+  router.post('/favorites/add', validateRequest(FAVORITES_ADD_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      return await editFavorite(request, env, db, false);
+    } catch (error) {
+      console.error('Error in /favorites/add:', error);
+      return createErrorResponse('Failed to add favorite');
+    }
+  });
+
+  // POST /favorites/remove
+  router.post('/favorites/remove', validateRequest(FAVORITES_REMOVE_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      return await editFavorite(request, env, db, true);
+    } catch (error) {
+      console.error('Error in /favorites/remove:', error);
+      return createErrorResponse('Failed to remove favorite');
+    }
+  });
+}
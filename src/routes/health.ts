@@ -1,12 +1,14 @@
 import { RouterType } from 'itty-router';
 import { createJsonResponse } from '../http/response';
+import { validateRequest } from '../http/schema';
+import { PING_ROUTE } from './schemas';
 
 export function registerHealthRoutes(router: RouterType) {
 /**
  * Health check endpoint
  * GET /ping
  */
-  router.get('/ping', () => {
+  router.get('/ping', validateRequest(PING_ROUTE), () => {
     return createJsonResponse({
       status: 'ok',
       timestamp: new Date().toISOString(),
@@ -1,35 +1,52 @@
 import { Router, RouterType } from 'itty-router';
-import { createJsonResponse, createErrorResponse } from '../http/response';
-import { resolveLocale } from '../i18n/locale';
-import { withCache } from '../http/cache';
-
-// Helper function to convert id to num in response objects
-function convertIdToNum(obj: any): any {
-  if (obj && typeof obj === 'object') {
-    if (Array.isArray(obj)) {
-      return obj.map(convertIdToNum);
-    } else {
-      const converted = { ...obj };
-      if ('id' in converted) {
-        converted.num = converted.id;
-        delete converted.id;
-      }
-      return converted;
-    }
-  }
-  return obj;
-}
+import { createJsonResponse, createErrorResponse, convertIdToNum } from '../http/response';
+import { withCache, withDynamicCache, secondsUntilUtcMidnight } from '../http/cache';
+import { buildLinkHeader, buildPageCursors, CURSOR_SECRET_MISSING, getCursorSecret, resolveCursorPage } from '../http/cursor';
+import { getInput, validateRequest } from '../http/schema';
+import { getClientHash } from '../http/client';
+import { addLike, getTotalLikeCount, removeLike } from '../likes/counter';
+import { expandTopPage, formatDay, getTopPage } from '../likes/ranking';
+import { getDailyComicId } from '../daily/pick';
+import { LOCALIZED_ARCHIVE_ROUTE, LOCALIZED_SEARCH_ROUTE, LOCALIZED_INFO_ROUTE, LOCALIZED_THUMB_UP_ROUTE, LOCALIZED_UNLIKE_ROUTE, LOCALIZED_TOP_ROUTE, LOCALIZED_DAILY_ROUTE } from './schemas';
 
 export function registerLocalizedRoutes(router: RouterType) {
   // GET /archive
-  router.get('/archive', withCache(async (request, env, ctx, { db }) => {
+  router.get('/archive', validateRequest(LOCALIZED_ARCHIVE_ROUTE), withCache(async (request, env, ctx, { db }) => {
     try {
-      const url = new URL(request.url);
-      const start = parseInt(url.searchParams.get('start') || '0');
-      const size = parseInt(url.searchParams.get('size') || '100');
-      const locale = resolveLocale(url.searchParams.get('locale'));
+      const { start, size, locale, cursor } = getInput(request);
+      const scope = `archive:${locale}`;
+      const secret = getCursorSecret(env);
+
+      // Cursor mode: ?cursor=<token> (empty token starts from the newest translation)
+      if (cursor !== undefined) {
+        if (!secret) return createErrorResponse(CURSOR_SECRET_MISSING, 503);
+        const page = await resolveCursorPage(cursor, scope, secret, {
+          order: 'desc',
+          direction: 'next',
+          anchorId: null,
+          size
+        });
+        if (!page) return createErrorResponse('Invalid cursor', 400);
+
+        const { comics, hasNext, hasPrev } = await db.getLocalizedComicsByCursor(locale, page);
+        const cursors = await buildPageCursors(comics, { scope, order: page.order, size: page.size, hasNext, hasPrev }, secret);
+
+        const response = createJsonResponse({ items: convertIdToNum(comics), ...cursors });
+        const link = buildLinkHeader(request.url, cursors);
+        if (link) response.headers.set('Link', link);
+        return response;
+      }
+
       const comics = await db.getLocalizedComics(start, size, locale);
-      return createJsonResponse(convertIdToNum(comics));
+      const response = createJsonResponse(convertIdToNum(comics));
+
+      // Offset paging has no cheap lookahead; a full page implies there may be more
+      if (secret) {
+        const cursors = await buildPageCursors(comics, { scope, order: 'desc', size, hasNext: comics.length === size, hasPrev: start > 0 }, secret);
+        const link = buildLinkHeader(request.url, cursors);
+        if (link) response.headers.set('Link', link);
+      }
+      return response;
     } catch (error) {
       console.error('Error in /archive:', error);
       return createErrorResponse('Failed to fetch localized archive');
@@ -39,16 +56,34 @@ export function registerLocalizedRoutes(router: RouterType) {
     browserTtl: 300 // 5 minutes browser cache
   }));
 
+  // GET /search?q=&locale= (search translated title/alt/transcript within one locale)
+  router.get('/search', validateRequest(LOCALIZED_SEARCH_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { q: keyword, size, offset, locale } = getInput(request);
+
+      const { comics, hasMore } = await db.searchLocalizedComics(locale, keyword, size, offset);
+
+      const response = createJsonResponse(convertIdToNum(comics));
+      response.headers.set('X-Pagination-Offset', offset.toString());
+      response.headers.set('X-Pagination-Size', size.toString());
+      response.headers.set('X-Pagination-HasMore', hasMore ? '1' : '0');
+      if (hasMore) {
+        response.headers.set('X-Pagination-NextOffset', (offset + size).toString());
+      }
+      return response;
+    } catch (error) {
+      console.error('Error in localized /search:', error);
+      return createErrorResponse('Failed to search localized comics');
+    }
+  }, {
+    ttl: 600,        // 10 minutes edge cache
+    browserTtl: 120  // 2 minutes browser cache
+  }));
+
   // GET /:comicId/info.0.json (localized JSON)
-  router.get('/:comicId/info.0.json', withCache(async (request, env, ctx, { db }) => {
+  router.get('/:comicId/info.0.json', validateRequest(LOCALIZED_INFO_ROUTE), withCache(async (request, env, ctx, { db }) => {
     try {
-      const url = new URL(request.url);
-      // Extract comicId from /:comicId/info.0.json pattern
-      const pathMatch = url.pathname.match(/^\/(\d+)\/info\.0\.json$/);
-      if (!pathMatch) return createErrorResponse('Invalid comic ID', 400);
-      const comicId = parseInt(pathMatch[1]);
-      if (isNaN(comicId) || comicId <= 0) return createErrorResponse('Invalid comic ID', 400);
-      const locale = resolveLocale(url.searchParams.get('locale'));
+      const { comicId, locale } = getInput(request);
       const localized = await db.getLocalizedComic(comicId, locale);
       if (localized) {
         // Transform to match XKCD API format: {_id, num, title, img, alt}
@@ -71,6 +106,84 @@ export function registerLocalizedRoutes(router: RouterType) {
     browserTtl: 3600,  // 1 hour browser cache
     notFoundTtl: 600   // 10 minutes for 404 (comic might be translated soon)
   }));
-}
 
+  // POST /thumb-up (likes are counted per language)
+  router.post('/thumb-up', validateRequest(LOCALIZED_THUMB_UP_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const { comic_id: comicId, locale } = getInput(request);
+      const localized = await db.getLocalizedComic(comicId, locale);
+      if (!localized) return createErrorResponse('Localized comic not found', 404);
+      const { count, changed } = await addLike(db, env, await getClientHash(request, env), comicId, 'comic', locale);
+      const totalCount = await getTotalLikeCount(db, comicId, 'comic', locale, count);
+      return createJsonResponse({ thumbCount: count, totalThumbCount: totalCount, num: comicId, locale, liked: true, changed });
+    } catch (error) {
+      console.error('Error in localized /thumb-up:', error);
+      return createErrorResponse('Failed to process thumb-up');
+    }
+  });
 
+  // POST /unlike
+  router.post('/unlike', validateRequest(LOCALIZED_UNLIKE_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const { comic_id: comicId, locale } = getInput(request);
+      const localized = await db.getLocalizedComic(comicId, locale);
+      if (!localized) return createErrorResponse('Localized comic not found', 404);
+      const { count, changed } = await removeLike(db, env, await getClientHash(request, env), comicId, 'comic', locale);
+      const totalCount = await getTotalLikeCount(db, comicId, 'comic', locale, count);
+      return createJsonResponse({ thumbCount: count, totalThumbCount: totalCount, num: comicId, locale, liked: false, changed });
+    } catch (error) {
+      console.error('Error in localized /unlike:', error);
+      return createErrorResponse('Failed to process unlike');
+    }
+  });
+
+  // GET /top (ranked within one language)
+  router.get('/top', validateRequest(LOCALIZED_TOP_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { locale, sortby, window, size, offset, expand } = getInput(request);
+      const { ids, total } = await getTopPage(db, 'comic', { sortby, window, size, offset, locale });
+      const result = expand
+        ? await expandTopPage(db, 'comic', ids, offset, locale)
+        : ids.map(num => ({ num }));
+
+      const response = createJsonResponse(result);
+      const hasMore = offset + ids.length < total;
+      response.headers.set('X-Pagination-Offset', offset.toString());
+      response.headers.set('X-Pagination-Size', size.toString());
+      response.headers.set('X-Pagination-Total', total.toString());
+      response.headers.set('X-Pagination-HasMore', hasMore ? '1' : '0');
+      if (hasMore) {
+        response.headers.set('X-Pagination-NextOffset', (offset + size).toString());
+      }
+      return response;
+    } catch (error) {
+      console.error('Error in localized /top:', error);
+      return createErrorResponse('Failed to get top localized comics');
+    }
+  }, {
+    ttl: 60,        // 1 minute edge cache (likes keep changing)
+    browserTtl: 30  // 30 seconds browser cache
+  }));
+
+  // GET /daily (translated comic of the day, picked per locale)
+  router.get('/daily', validateRequest(LOCALIZED_DAILY_ROUTE), withDynamicCache(async (request, env, ctx, { db }) => {
+    try {
+      const { locale } = getInput(request);
+      const day = formatDay(new Date());
+      const comicId = await getDailyComicId(db, env, day, locale);
+      const localized = comicId === null ? null : await db.getLocalizedComic(comicId, locale);
+      if (!localized) return createErrorResponse('No translated comics found', 404);
+
+      const response = createJsonResponse(convertIdToNum(localized));
+      response.headers.set('X-Daily-Date', day);
+      return response;
+    } catch (error) {
+      console.error('Error in /daily:', error);
+      return createErrorResponse('Failed to get comic of the day');
+    }
+  }, () => {
+    // The next comic of the day is picked at UTC midnight
+    const untilMidnight = secondsUntilUtcMidnight();
+    return { ttl: untilMidnight, browserTtl: untilMidnight };
+  }));
+}
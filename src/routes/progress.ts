@@ -0,0 +1,39 @@
+import { RouterType } from 'itty-router';
+import { createJsonResponse, createErrorResponse } from '../http/response';
+import { getInput, validateRequest } from '../http/schema';
+import { DEVICE_ID_HEADER, getDeviceHash } from '../http/client';
+import { countIdRanges, getSeenRanges, markSeen } from '../progress/ranges';
+import { READ_PROGRESS_ROUTE, READ_PROGRESS_SEEN_ROUTE } from './schemas';
+
+export function registerReadProgressRoutes(router: RouterType) {
+  // GET /read-progress (seen ranges and unread count of one item type)
+  router.get('/read-progress', validateRequest(READ_PROGRESS_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const ownerHash = await getDeviceHash(request, env);
+      if (!ownerHash) return createErrorResponse(`${DEVICE_ID_HEADER} header is required`, 400);
+
+      const { comic_type: comicType, since } = getInput(request);
+      const seen = await getSeenRanges(db, ownerHash, comicType);
+      const { unread, latest } = await db.countUnread(comicType, seen, since);
+      return createJsonResponse({ comic_type: comicType, seen, seenCount: countIdRanges(seen), unread, latest });
+    } catch (error) {
+      console.error('Error in /read-progress:', error);
+      return createErrorResponse('Failed to fetch read progress');
+    }
+  });
+
+  // POST /read-progress/seen
+  router.post('/read-progress/seen', validateRequest(READ_PROGRESS_SEEN_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const ownerHash = await getDeviceHash(request, env);
+      if (!ownerHash) return createErrorResponse(`${DEVICE_ID_HEADER} header is required`, 400);
+
+      const { comic_type: comicType, ids } = getInput(request);
+      const seen = await markSeen(db, ownerHash, comicType, ids);
+      return createJsonResponse({ comic_type: comicType, seen, seenCount: countIdRanges(seen) });
+    } catch (error) {
+      console.error('Error in /read-progress/seen:', error);
+      return createErrorResponse('Failed to save read progress');
+    }
+  });
+}
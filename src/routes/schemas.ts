@@ -0,0 +1,884 @@
+/**
+ * Schemas of the public routes
+ * Each route module validates requests with its schema (validateRequest) and
+ * /openapi.json is generated from ROUTE_SCHEMAS
+ */
+
+import { ParamSchema, RouteSchema } from '../http/schema';
+import { arrayOf, envelopeOf, ref } from '../http/openapi';
+import { SUPPORTED_LANGUAGES } from '../i18n/locale';
+import { parseFieldList } from '../http/fields';
+import { LIKE_WINDOWS, TOP_SORTS } from '../likes/ranking';
+import { parseIdRanges } from '../progress/ranges';
+import { MAX_BATCH_IDS, MAX_LIST_SIZE, MAX_LOG_SIZE, MAX_OFFLINE_ARTICLES, MAX_OFFLINE_IMAGES, MAX_RANDOM_COUNT, MAX_SEARCH_SIZE, MAX_TOP_SIZE, parseIdList, parseMonthDay } from '../http/params';
+
+// Shared parameters
+const size = (fallback: number, maximum: number): ParamSchema => ({ type: 'integer', minimum: 1, maximum, default: fallback, description: 'Page size' });
+const start: ParamSchema = { type: 'integer', minimum: 0, default: 0, description: 'Legacy paging: first id of the page (inclusive)' };
+const reversed: ParamSchema = { type: 'boolean', default: '0', description: '1 = newest first' };
+const offset: ParamSchema = { type: 'integer', minimum: 0, default: 0, description: 'Number of results to skip' };
+const cursor: ParamSchema = {
+  type: 'string',
+  allowEmpty: true,
+  description: 'Signed cursor from a previous page (next/prev). Send an empty value to start cursor pagination'
+};
+const query: ParamSchema = { type: 'string', required: true, description: 'Search terms; supports "phrases" and prefix*' };
+const fields: ParamSchema = {
+  type: 'string',
+  description: 'Comma-separated fields to return (num is always included)',
+  parse: value => {
+    const { fields, error } = parseFieldList(value);
+    return { value: fields, error };
+  }
+};
+const full: ParamSchema = { type: 'boolean', description: '1 = return every stored field' };
+const whatIfFull: ParamSchema = { type: 'boolean', description: '1 = include the article content' };
+const year: ParamSchema = { type: 'integer', minimum: 1, description: 'Publication year' };
+const month: ParamSchema = { type: 'integer', minimum: 1, maximum: 12, requires: 'year', description: 'Publication month (requires year)' };
+const day: ParamSchema = { type: 'integer', minimum: 1, maximum: 31, requires: 'month', description: 'Publication day (requires month)' };
+const legacyLocale: ParamSchema = {
+  type: 'locale',
+  lenient: true,
+  allowEmpty: true,
+  description: `Translation locale: ${SUPPORTED_LANGUAGES.join(', ')} (case-insensitive; empty or unknown values fall back to zh-cn)`
+};
+// Localized host routes always serve one locale
+const archiveLocale: ParamSchema = { ...legacyLocale, default: 'zh-cn' };
+// Likes are counted per locale, so an unknown locale is rejected instead of falling back
+const likeLocale: ParamSchema = { type: 'locale', default: 'zh-cn', description: 'Language the comic was read in' };
+const ids: ParamSchema = {
+  type: 'string',
+  required: true,
+  description: `Comma-separated comic numbers (max ${MAX_BATCH_IDS})`,
+  parse: value => {
+    const { ids, error } = parseIdList(value);
+    return { value: ids, error };
+  }
+};
+const whatIfIds: ParamSchema = {
+  type: 'string',
+  required: true,
+  description: `Comma-separated article numbers (max ${MAX_OFFLINE_ARTICLES})`,
+  parse: value => {
+    const { ids, error } = parseIdList(value, MAX_OFFLINE_ARTICLES);
+    return { value: ids, error };
+  }
+};
+const comicType: ParamSchema = { type: 'string', enum: ['comic', 'what_if'], default: 'comic', description: 'comic or what_if' };
+const positiveId = (description: string): ParamSchema => ({ type: 'integer', minimum: 1, required: true, description });
+const sortby: ParamSchema = { type: 'string', enum: TOP_SORTS, default: 'thumb-up', description: 'Ranking: thumb-up = most likes, trending = recent likes weighted by age (refreshed hourly)' };
+const likeWindow: ParamSchema = { type: 'string', enum: LIKE_WINDOWS, default: 'all', description: 'Only count likes given in the last day/week/month/year (thumb-up only)' };
+const expand: ParamSchema = { type: 'boolean', default: '0', description: '1 = return full records with thumbCount and rank instead of { num }' };
+const excludeSeen: ParamSchema = { type: 'boolean', default: '0', description: '1 = skip items marked as seen by this X-Device-Id (see /read-progress)' };
+const topHeaders = {
+  'X-Pagination-Offset': 'Offset of this page',
+  'X-Pagination-Size': 'Page size',
+  'X-Pagination-Total': 'Number of ranked items',
+  'X-Pagination-HasMore': '1 if another page follows',
+  'X-Pagination-NextOffset': 'Offset of the next page'
+};
+
+const paginationHeaders = {
+  'X-Pagination-Size': 'Page size',
+  'X-Pagination-Reversed': '1 if newest first',
+  'X-Pagination-HasMore': '1 if another page follows',
+  'Link': 'RFC 8288 links to the next/prev pages (cursor form)'
+};
+
+const notFound = (description: string) => ({ description });
+
+const likeDescription = 'One like per client: send a stable `X-Device-Id` header (8-128 characters of A-Z a-z 0-9 . _ : -), otherwise the client IP is used. Repeating the request does not change the count.';
+
+// ============================================================================
+// XKCD
+// ============================================================================
+
+export const XKCD_LIST_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/xkcd-list',
+  summary: 'List comics',
+  description: 'Legacy paging uses start/reversed; passing `cursor` switches to signed cursor pagination and an { items, next, prev } body.',
+  tags: ['xkcd'],
+  params: { query: { start, size: size(100, MAX_LIST_SIZE), reversed, cursor, year, month, day, fields, full } },
+  responses: {
+    200: {
+      description: 'Array of comics (legacy) or a cursor page',
+      schema: { oneOf: [arrayOf(ref('Comic')), ref('ComicCursorPage')] },
+      headers: { ...paginationHeaders, 'X-Pagination-Start': 'Legacy start', 'X-Pagination-NextStart': 'Legacy start of the next page' }
+    }
+  }
+};
+
+export const XKCD_INFO_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/{comicId}/info.0.json',
+  summary: 'Get a comic (xkcd.com compatible)',
+  description: 'With `locale`, returns the translation from that locale instead. On LOCALIZED_HOSTNAME this path returns the translation in xkcd.com format.',
+  tags: ['xkcd'],
+  params: {
+    path: { comicId: positiveId('Comic number') },
+    query: { locale: legacyLocale, fields, full }
+  },
+  responses: {
+    200: { description: 'The comic', schema: { oneOf: [ref('Comic'), ref('LocalizedComic')] } },
+    404: notFound('Comic not found')
+  }
+};
+
+export const XKCD_RELATED_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/{comicId}/related',
+  summary: 'Comics related to a comic',
+  description: 'Ranked by the similarity of titles, alt texts and transcripts (TF-IDF); comics the comic links to or is linked from (`crossReference`) rank first.',
+  tags: ['xkcd'],
+  params: {
+    path: { comicId: positiveId('Comic number') },
+    query: { size: size(10, MAX_SEARCH_SIZE) }
+  },
+  responses: {
+    200: { description: 'Related comics, most related first', schema: arrayOf(ref('RelatedComic')) },
+    404: notFound('Comic not found')
+  }
+};
+
+export const XKCD_THUMB_UP_ROUTE: RouteSchema = {
+  method: 'post',
+  path: '/xkcd-thumb-up',
+  summary: 'Like a comic',
+  description: likeDescription,
+  tags: ['xkcd'],
+  params: { form: { comic_id: positiveId('Comic number') } },
+  responses: {
+    200: { description: 'Like count', schema: ref('ThumbUp') },
+    404: notFound('Comic not found')
+  }
+};
+
+export const XKCD_UNLIKE_ROUTE: RouteSchema = {
+  ...XKCD_THUMB_UP_ROUTE,
+  path: '/xkcd-unlike',
+  summary: 'Withdraw a like from a comic',
+  description: 'Removes the like recorded for this client (see /xkcd-thumb-up); a no-op if there is none.'
+};
+
+export const XKCD_TOP_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/xkcd-top',
+  summary: 'Most liked comics',
+  tags: ['xkcd'],
+  params: { query: { sortby, window: likeWindow, offset, size: size(10, MAX_TOP_SIZE), expand } },
+  responses: {
+    200: {
+      description: 'Comics, most liked first',
+      schema: { oneOf: [arrayOf(ref('TopItem')), arrayOf(ref('TopComic'))] },
+      headers: topHeaders
+    }
+  }
+};
+
+export const XKCD_RANDOM_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/xkcd-random',
+  summary: 'Random comic',
+  description: 'All constraints combine. With `count` an array of distinct comics is returned (fewer if fewer match); the same `seed` returns the same picks while the archive is unchanged.',
+  tags: ['xkcd'],
+  params: {
+    query: {
+      from: { type: 'integer', minimum: 1, description: 'Lowest comic number' },
+      to: { type: 'integer', minimum: 1, description: 'Highest comic number' },
+      year,
+      locale: { type: 'locale', description: `Only comics translated into this language: ${SUPPORTED_LANGUAGES.join(', ')}` },
+      count: { type: 'integer', minimum: 1, maximum: MAX_RANDOM_COUNT, description: 'Number of distinct comics to return as an array' },
+      seed: { type: 'string', pattern: '[A-Za-z0-9._:-]{1,64}', description: 'Makes the picks reproducible' },
+      fields,
+      full,
+      excludeSeen
+    }
+  },
+  responses: {
+    200: { description: 'A random comic, or an array with count', schema: { oneOf: [ref('Comic'), arrayOf(ref('Comic'))] } },
+    400: { description: 'from greater than to, or excludeSeen without a valid X-Device-Id' },
+    404: notFound('No comics match (without count; with count the array is empty)')
+  }
+};
+
+export const XKCD_SUGGEST_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/xkcd-suggest',
+  summary: 'Search-as-you-type suggestions',
+  description: 'An exact comic number comes first; the last word is matched as a prefix.',
+  tags: ['xkcd'],
+  params: { query: { q: query, size: size(20, MAX_SEARCH_SIZE), fields, full } },
+  responses: { 200: { description: 'Matching comics', schema: arrayOf(ref('Comic')) } }
+};
+
+export const XKCD_SEARCH_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/xkcd-search',
+  summary: 'Full-text search',
+  description: 'Ranked with bm25 over title, safe_title, alt and transcript.',
+  tags: ['xkcd'],
+  params: { query: { q: query, offset, size: size(20, MAX_SEARCH_SIZE), fields, full } },
+  responses: {
+    200: {
+      description: 'Ranked results with highlighted snippets',
+      schema: arrayOf(ref('ComicSearchResult')),
+      headers: {
+        'X-Pagination-Offset': 'Offset of this page',
+        'X-Pagination-Size': 'Page size',
+        'X-Pagination-Total': 'Total number of matches',
+        'X-Pagination-HasMore': '1 if another page follows',
+        'X-Pagination-NextOffset': 'Offset of the next page'
+      }
+    }
+  }
+};
+
+export const XKCD_ON_THIS_DAY_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/xkcd-on-this-day',
+  summary: 'Comics published on this calendar day in past years',
+  tags: ['xkcd'],
+  params: { query: { date: { type: 'string', pattern: '\\d{1,2}-\\d{1,2}', description: 'MM-DD, defaults to today (UTC)', parse: parseMonthDay } } },
+  responses: { 200: { description: 'Comics, newest first', schema: arrayOf(ref('Comic')) } }
+};
+
+const dailyDescription = 'The same pseudo-random comic for every client during a UTC day, seeded by the date; comics of the day are not repeated within DAILY_NO_REPEAT_DAYS (default 365). Cached until the next UTC midnight.';
+const dailyHeaders = { 'X-Daily-Date': 'UTC day (YYYY-MM-DD) the comic was picked for' };
+
+export const XKCD_DAILY_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/xkcd-daily',
+  summary: 'Comic of the day',
+  description: dailyDescription,
+  tags: ['xkcd'],
+  responses: {
+    200: { description: 'The comic of the day', schema: ref('Comic'), headers: dailyHeaders },
+    404: notFound('No comics stored')
+  }
+};
+
+export const XKCD_CALENDAR_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/xkcd-calendar',
+  summary: 'Comic counts per year and month',
+  tags: ['xkcd'],
+  params: { query: { year } },
+  responses: { 200: { description: 'Histogram', schema: arrayOf(ref('CalendarYear')) } }
+};
+
+export const XKCD_BATCH_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/xkcd-batch',
+  summary: 'Get many comics at once',
+  description: 'Keeps the requested order and lists unknown numbers in `missing`.',
+  tags: ['xkcd'],
+  params: { query: { ids, locale: legacyLocale } },
+  responses: { 200: { description: 'Comics and missing numbers', schema: ref('ComicBatch') } }
+};
+
+export const XKCD_BATCH_POST_ROUTE: RouteSchema = {
+  ...XKCD_BATCH_ROUTE,
+  method: 'post',
+  summary: 'Get many comics at once (form body, for long lists)',
+  params: { form: { ids, locale: legacyLocale } }
+};
+
+// ============================================================================
+// WHAT IF
+// ============================================================================
+
+export const WHAT_IF_LIST_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/what-if-list',
+  summary: 'List What If articles',
+  tags: ['what-if'],
+  params: { query: { start, size: size(100, MAX_LIST_SIZE), reversed, cursor } },
+  responses: {
+    200: {
+      description: 'Array of articles (legacy) or a cursor page',
+      schema: { oneOf: [arrayOf(ref('WhatIf')), ref('WhatIfCursorPage')] },
+      headers: { ...paginationHeaders, 'X-Pagination-Total': 'Total number of articles' }
+    }
+  }
+};
+
+export const WHAT_IF_GET_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/what-if/{id}',
+  summary: 'Get a What If article',
+  description: 'With `full=1` the article content is included: question, asker, sanitized answer HTML, inline images and footnotes.',
+  tags: ['what-if'],
+  params: { path: { id: positiveId('Article number') }, query: { full: whatIfFull } },
+  responses: {
+    200: { description: 'The article', schema: ref('WhatIf') },
+    404: notFound('Article not found')
+  }
+};
+
+export const WHAT_IF_IMAGES_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/what-if/{id}/images',
+  summary: 'Images of a What If article',
+  description: 'The archive thumbnail followed by the illustrations in article order, with their sizes in pixels (null when they could not be probed).',
+  tags: ['what-if'],
+  params: { path: { id: positiveId('Article number') } },
+  responses: {
+    200: { description: 'Images, thumbnail first', schema: arrayOf(ref('WhatIfImage')) },
+    404: notFound('Article not found')
+  }
+};
+
+export const WHAT_IF_OFFLINE_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/what-if/{id}/offline',
+  summary: 'Offline copy of a What If article',
+  description: `A self-contained HTML document: the article body, footnotes as endnotes and images inlined as data URIs (images that cannot be fetched, and any beyond the first ${MAX_OFFLINE_IMAGES}, keep their URL).`,
+  tags: ['what-if'],
+  params: { path: { id: positiveId('Article number') } },
+  responses: {
+    200: { description: 'HTML document', contentType: 'text/html', schema: { type: 'string' } },
+    404: notFound('Article not found or its content not crawled yet')
+  }
+};
+
+export const WHAT_IF_OFFLINE_ZIP_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/what-if-offline',
+  summary: 'Offline copies of many What If articles',
+  description: `A streamed ZIP with one offline document per article (see /what-if/{id}/offline), named what-if-{id}.html, and an index.html linking them. At most ${MAX_OFFLINE_IMAGES} images are inlined over the whole ZIP; the rest keep their URL. Articles that are unknown or not crawled yet are left out.`,
+  tags: ['what-if'],
+  params: { query: { ids: whatIfIds } },
+  responses: {
+    200: {
+      description: 'ZIP archive',
+      contentType: 'application/zip',
+      schema: { type: 'string', format: 'binary' },
+      headers: { 'X-Missing-Ids': 'Comma-separated requested articles left out, if any' }
+    },
+    404: notFound('None of the articles has content')
+  }
+};
+
+export const WHAT_IF_THUMB_UP_ROUTE: RouteSchema = {
+  method: 'post',
+  path: '/what-if-thumb-up',
+  summary: 'Like a What If article',
+  description: likeDescription,
+  tags: ['what-if'],
+  params: { form: { what_if_id: positiveId('Article number') } },
+  responses: {
+    200: { description: 'Like count', schema: ref('ThumbUp') },
+    404: notFound('Article not found')
+  }
+};
+
+export const WHAT_IF_UNLIKE_ROUTE: RouteSchema = {
+  ...WHAT_IF_THUMB_UP_ROUTE,
+  path: '/what-if-unlike',
+  summary: 'Withdraw a like from a What If article',
+  description: 'Removes the like recorded for this client (see /what-if-thumb-up); a no-op if there is none.'
+};
+
+export const WHAT_IF_TOP_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/what-if-top',
+  summary: 'Most liked What If articles',
+  tags: ['what-if'],
+  params: { query: { sortby, window: likeWindow, offset, size: size(10, MAX_TOP_SIZE), expand } },
+  responses: {
+    200: {
+      description: 'Articles, most liked first',
+      schema: { oneOf: [arrayOf(ref('TopItem')), arrayOf(ref('TopWhatIf'))] },
+      headers: topHeaders
+    }
+  }
+};
+
+export const WHAT_IF_RANDOM_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/what-if-random',
+  summary: 'Random What If article',
+  tags: ['what-if'],
+  params: { query: { excludeSeen } },
+  responses: {
+    200: { description: 'A random article', schema: ref('WhatIf') },
+    400: { description: 'excludeSeen without a valid X-Device-Id' },
+    404: notFound('No articles stored (or none left unseen)')
+  }
+};
+
+export const WHAT_IF_SUGGEST_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/what-if-suggest',
+  summary: 'Search What If titles',
+  description: 'Matches the article number and titles first, then articles whose question, answer or footnotes match.',
+  tags: ['what-if'],
+  params: { query: { q: { type: 'string', required: true, description: 'Title keyword or article number' }, size: size(20, MAX_SEARCH_SIZE) } },
+  responses: { 200: { description: 'Matching articles', schema: arrayOf(ref('WhatIf')) } }
+};
+
+export const WHAT_IF_SEARCH_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/what-if-search',
+  summary: 'Full-text search of What If articles',
+  description: 'Ranked with bm25 over title, question, answer and footnotes.',
+  tags: ['what-if'],
+  params: { query: { q: query, offset, size: size(20, MAX_SEARCH_SIZE) } },
+  responses: {
+    200: {
+      description: 'Ranked results with highlighted snippets',
+      schema: arrayOf(ref('WhatIfSearchResult')),
+      headers: {
+        'X-Pagination-Offset': 'Offset of this page',
+        'X-Pagination-Size': 'Page size',
+        'X-Pagination-Total': 'Total number of matches',
+        'X-Pagination-HasMore': '1 if another page follows',
+        'X-Pagination-NextOffset': 'Offset of the next page'
+      }
+    }
+  }
+};
+
+// ============================================================================
+// LOCALIZED
+// ============================================================================
+
+export const LOCALIZED_ARCHIVE_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/archive',
+  summary: 'List translated comics, newest first',
+  tags: ['localized'],
+  params: { query: { start: { ...offset, description: 'Legacy paging: number of comics to skip' }, size: size(100, MAX_LIST_SIZE), locale: archiveLocale, cursor } },
+  responses: {
+    200: {
+      description: 'Array of translations (legacy) or a cursor page',
+      schema: { oneOf: [arrayOf(ref('LocalizedComic')), { type: 'object', properties: { items: arrayOf(ref('LocalizedComic')), next: { type: ['string', 'null'] }, prev: { type: ['string', 'null'] } } }] },
+      headers: { 'Link': paginationHeaders.Link }
+    }
+  }
+};
+
+export const LOCALIZED_SEARCH_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/search',
+  summary: 'Search translated comics within one locale',
+  tags: ['localized'],
+  params: { query: { q: query, locale: archiveLocale, offset, size: size(20, MAX_SEARCH_SIZE) } },
+  responses: {
+    200: {
+      description: 'Matching translations with the original num and English title',
+      schema: arrayOf(ref('LocalizedComic')),
+      headers: {
+        'X-Pagination-Offset': 'Offset of this page',
+        'X-Pagination-HasMore': '1 if another page follows',
+        'X-Pagination-NextOffset': 'Offset of the next page'
+      }
+    }
+  }
+};
+
+// Same path as XKCD_INFO_ROUTE, served on LOCALIZED_HOSTNAME only; documented there
+export const LOCALIZED_INFO_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/{comicId}/info.0.json',
+  summary: 'Get a translated comic in xkcd.com format',
+  tags: ['localized'],
+  params: {
+    path: { comicId: positiveId('Comic number') },
+    query: { locale: archiveLocale }
+  },
+  responses: {
+    200: { description: 'The translation', schema: ref('LocalizedComic') },
+    404: notFound('Translation not found')
+  },
+  hidden: true
+};
+
+export const LOCALIZED_THUMB_UP_ROUTE: RouteSchema = {
+  method: 'post',
+  path: '/thumb-up',
+  summary: 'Like a translated comic',
+  description: `${likeDescription} Likes are counted per language; totalThumbCount adds up every language of the same num, including the original comic.`,
+  tags: ['localized'],
+  params: { form: { comic_id: positiveId('Comic number'), locale: likeLocale } },
+  responses: {
+    200: { description: 'Like count in this language and over all languages', schema: ref('LocalizedThumbUp') },
+    404: notFound('Translation not found')
+  }
+};
+
+export const LOCALIZED_UNLIKE_ROUTE: RouteSchema = {
+  ...LOCALIZED_THUMB_UP_ROUTE,
+  path: '/unlike',
+  summary: 'Withdraw a like from a translated comic',
+  description: 'Removes the like recorded for this client and language (see /thumb-up); a no-op if there is none.'
+};
+
+export const LOCALIZED_TOP_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/top',
+  summary: 'Most liked translated comics in one language',
+  description: 'Ranks by likes given in this language; expanded items also carry totalThumbCount over all languages.',
+  tags: ['localized'],
+  params: { query: { locale: likeLocale, sortby, window: likeWindow, offset, size: size(10, MAX_TOP_SIZE), expand } },
+  responses: {
+    200: {
+      description: 'Comics, most liked first',
+      schema: { oneOf: [arrayOf(ref('TopItem')), arrayOf(ref('TopLocalizedComic'))] },
+      headers: topHeaders
+    }
+  }
+};
+
+export const LOCALIZED_DAILY_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/daily',
+  summary: 'Translated comic of the day',
+  description: `${dailyDescription} Each locale picks among its translated comics separately.`,
+  tags: ['localized'],
+  params: { query: { locale: archiveLocale } },
+  responses: {
+    200: { description: 'The translation of the comic of the day', schema: ref('LocalizedComic'), headers: dailyHeaders },
+    404: notFound('No translations stored')
+  }
+};
+
+// ============================================================================
+// FAVORITES
+// ============================================================================
+
+const favoritesDescription = 'Favorites belong to the `X-Device-Id` header (required, 8-128 characters of A-Z a-z 0-9 . _ : -); send the same id from every device that should share the list.';
+const favoriteParams: Record<string, ParamSchema> = {
+  comic_id: positiveId('Comic or What If number'),
+  comic_type: comicType,
+  updated_at: { type: 'integer', minimum: 0, description: 'When the edit was made on the device (ms since epoch; default now). Of conflicting edits the newest wins' }
+};
+
+export const FAVORITES_LIST_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/favorites',
+  summary: 'List or sync favorites',
+  description: `${favoritesDescription} Without \`since\` the current favorites are listed; with the X-Favorites-Version of a previous response only later changes are returned, removals included as deleted items.`,
+  tags: ['favorites'],
+  params: {
+    query: {
+      since: { type: 'integer', minimum: 0, default: 0, description: 'Only return changes after this version' },
+      size: size(MAX_LIST_SIZE, MAX_LIST_SIZE)
+    }
+  },
+  responses: {
+    200: {
+      description: 'Favorites (or changes), oldest change first',
+      schema: arrayOf(ref('Favorite')),
+      headers: {
+        'X-Favorites-Version': 'Latest version of the list; pass as since to get later changes',
+        'X-Pagination-Size': 'Page size',
+        'X-Pagination-HasMore': '1 if another page follows',
+        'X-Pagination-NextSince': 'since of the next page'
+      }
+    },
+    400: { description: 'Missing or malformed X-Device-Id' }
+  }
+};
+
+export const FAVORITES_ADD_ROUTE: RouteSchema = {
+  method: 'post',
+  path: '/favorites/add',
+  summary: 'Add a favorite',
+  description: `${favoritesDescription} Comics and What If articles share one list.`,
+  tags: ['favorites'],
+  params: { form: favoriteParams },
+  responses: {
+    200: { description: 'The item\'s favorite state after the edit', schema: ref('FavoriteChange') },
+    400: { description: 'Missing or malformed X-Device-Id' },
+    404: notFound('Comic or What If article not found')
+  }
+};
+
+export const FAVORITES_REMOVE_ROUTE: RouteSchema = {
+  ...FAVORITES_ADD_ROUTE,
+  path: '/favorites/remove',
+  summary: 'Remove a favorite',
+  description: `${favoritesDescription} The removal is kept so other devices pick it up on their next sync.`
+};
+
+// ============================================================================
+// READ PROGRESS
+// ============================================================================
+
+const progressDescription = 'Progress belongs to the `X-Device-Id` header (required); send the same id from every device that should share it.';
+
+export const READ_PROGRESS_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/read-progress',
+  summary: 'Seen ids and unread count',
+  description: `${progressDescription} unread counts stored items above \`since\` that were not marked as seen.`,
+  tags: ['progress'],
+  params: {
+    query: {
+      comic_type: comicType,
+      since: { type: 'integer', minimum: 0, default: 0, description: 'Only count unread items with a higher num' }
+    }
+  },
+  responses: {
+    200: { description: 'Read progress', schema: ref('ReadProgress') },
+    400: { description: 'Missing or malformed X-Device-Id' }
+  }
+};
+
+export const READ_PROGRESS_SEEN_ROUTE: RouteSchema = {
+  method: 'post',
+  path: '/read-progress/seen',
+  summary: 'Mark items as seen',
+  description: `${progressDescription} Seen ids are only ever added, so devices can report them in any order.`,
+  tags: ['progress'],
+  params: {
+    form: {
+      comic_type: comicType,
+      ids: {
+        type: 'string',
+        required: true,
+        description: `Comma-separated numbers and ranges, e.g. 1-100,105 (max ${MAX_BATCH_IDS} entries)`,
+        parse: value => {
+          const { ranges, error } = parseIdRanges(value);
+          return { value: ranges, error };
+        }
+      }
+    }
+  },
+  responses: {
+    200: { description: 'All ranges seen after the update', schema: ref('SeenRanges') },
+    400: { description: 'Missing or malformed X-Device-Id' }
+  }
+};
+
+// ============================================================================
+// V2
+// ============================================================================
+
+const order: ParamSchema = { type: 'string', enum: ['asc', 'desc'], default: 'asc', description: 'Sort order by num' };
+const locale: ParamSchema = { type: 'locale', required: true, description: `Translation locale: ${SUPPORTED_LANGUAGES.join(', ')} (case-insensitive)` };
+
+function v2Route(route: Omit<RouteSchema, 'envelope' | 'tags'>): RouteSchema {
+  return { ...route, path: `/v2${route.path}`, tags: ['v2'], envelope: true };
+}
+
+export const V2_COMICS_ROUTE = v2Route({
+  method: 'get',
+  path: '/comics',
+  summary: 'List comics',
+  params: { query: { cursor, size: size(100, MAX_LIST_SIZE), order, year, month, day, full } },
+  responses: { 200: { description: 'A page of comics; cursors in meta.pagination', schema: envelopeOf(arrayOf(ref('ComicDto'))) } }
+});
+
+export const V2_COMIC_RANDOM_ROUTE = v2Route({
+  method: 'get',
+  path: '/comics/random',
+  summary: 'Random comic',
+  params: { query: { full } },
+  responses: {
+    200: { description: 'A random comic', schema: envelopeOf(ref('ComicDto')) },
+    404: notFound('No comics stored')
+  }
+});
+
+export const V2_COMIC_SEARCH_ROUTE = v2Route({
+  method: 'get',
+  path: '/comics/search',
+  summary: 'Full-text search',
+  params: { query: { q: query, offset, size: size(20, MAX_SEARCH_SIZE), full } },
+  responses: { 200: { description: 'Ranked results; offset/total in meta.pagination', schema: envelopeOf(arrayOf(ref('ComicSearchResultDto'))) } }
+});
+
+export const V2_COMIC_BATCH_ROUTE = v2Route({
+  method: 'get',
+  path: '/comics/batch',
+  summary: 'Get many comics at once',
+  params: { query: { ids, locale: { ...locale, required: false, description: 'Overlay translated title/alt' } } },
+  responses: { 200: { description: 'Comics in the requested order; unknown numbers in meta.missing', schema: envelopeOf(arrayOf(ref('ComicDto'))) } }
+});
+
+export const V2_COMIC_BATCH_POST_ROUTE: RouteSchema = {
+  ...V2_COMIC_BATCH_ROUTE,
+  method: 'post',
+  summary: 'Get many comics at once (form body, for long lists)',
+  params: { form: V2_COMIC_BATCH_ROUTE.params!.query! }
+};
+
+export const V2_COMIC_ROUTE = v2Route({
+  method: 'get',
+  path: '/comics/{num}',
+  summary: 'Get a comic',
+  params: { path: { num: positiveId('Comic number') }, query: { full } },
+  responses: {
+    200: { description: 'The comic', schema: envelopeOf(ref('ComicDto')) },
+    404: notFound('Comic not found')
+  }
+});
+
+export const V2_WHAT_IF_LIST_ROUTE = v2Route({
+  method: 'get',
+  path: '/what-if',
+  summary: 'List What If articles',
+  params: { query: { cursor, size: size(100, MAX_LIST_SIZE), order } },
+  responses: { 200: { description: 'A page of articles; cursors in meta.pagination', schema: envelopeOf(arrayOf(ref('WhatIfDto'))) } }
+});
+
+export const V2_WHAT_IF_RANDOM_ROUTE = v2Route({
+  method: 'get',
+  path: '/what-if/random',
+  summary: 'Random What If article',
+  responses: {
+    200: { description: 'A random article', schema: envelopeOf(ref('WhatIfDto')) },
+    404: notFound('No articles stored')
+  }
+});
+
+export const V2_WHAT_IF_ROUTE = v2Route({
+  method: 'get',
+  path: '/what-if/{num}',
+  summary: 'Get a What If article',
+  params: { path: { num: positiveId('Article number') }, query: { full: whatIfFull } },
+  responses: {
+    200: { description: 'The article', schema: envelopeOf(ref('WhatIfDto')) },
+    404: notFound('Article not found')
+  }
+});
+
+export const V2_LOCALIZED_COMICS_ROUTE = v2Route({
+  method: 'get',
+  path: '/localized/{locale}/comics',
+  summary: 'List translated comics, newest first',
+  params: { path: { locale }, query: { cursor, size: size(100, MAX_LIST_SIZE) } },
+  responses: { 200: { description: 'A page of translations; cursors in meta.pagination', schema: envelopeOf(arrayOf(ref('LocalizedComicDto'))) } }
+});
+
+export const V2_LOCALIZED_SEARCH_ROUTE = v2Route({
+  method: 'get',
+  path: '/localized/{locale}/search',
+  summary: 'Search translated comics',
+  params: { path: { locale }, query: { q: query, offset, size: size(20, MAX_SEARCH_SIZE) } },
+  responses: { 200: { description: 'Matching translations', schema: envelopeOf(arrayOf(ref('LocalizedComicDto'))) } }
+});
+
+export const V2_LOCALIZED_COMIC_ROUTE = v2Route({
+  method: 'get',
+  path: '/localized/{locale}/comics/{num}',
+  summary: 'Get a translated comic',
+  params: { path: { locale, num: positiveId('Comic number') } },
+  responses: {
+    200: { description: 'The translation', schema: envelopeOf(ref('LocalizedComicDto')) },
+    404: notFound('Translation not found')
+  }
+});
+
+// ============================================================================
+// CRAWLER (operator routes, left out of /openapi.json)
+// ============================================================================
+
+// Shared by /crawler/xkcd/logs and /crawler/whatif/logs
+export const CRAWLER_LOGS_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/crawler/{crawler}/logs',
+  summary: 'Recent crawler runs',
+  tags: ['crawler'],
+  params: { query: { limit: { type: 'integer', minimum: 1, maximum: MAX_LOG_SIZE, default: 50, description: 'Number of log entries' } } },
+  responses: { 200: { description: 'Crawler logs' } },
+  hidden: true
+};
+
+export const CRAWLER_LOCALIZED_START_ROUTE: RouteSchema = {
+  method: 'post',
+  path: '/crawler/localized/{language}/start',
+  summary: 'Start a localized crawler workflow',
+  tags: ['crawler'],
+  params: { path: { language: { type: 'locale', required: true, description: 'Translation locale' } } },
+  responses: { 200: { description: 'Workflow started' } },
+  hidden: true
+};
+
+// ============================================================================
+// SYSTEM
+// ============================================================================
+
+export const PING_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/ping',
+  summary: 'Health check',
+  tags: ['system'],
+  responses: { 200: { description: 'Service is up', schema: ref('Ping') } }
+};
+
+export const OPENAPI_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/openapi.json',
+  summary: 'This OpenAPI document',
+  tags: ['system'],
+  responses: { 200: { description: 'OpenAPI 3.1 document', schema: { type: 'object' } } }
+};
+
+export const DOCS_ROUTE: RouteSchema = {
+  method: 'get',
+  path: '/docs',
+  summary: 'Human-readable API reference rendered from /openapi.json',
+  tags: ['system'],
+  responses: { 200: { description: 'HTML page', contentType: 'text/html', schema: { type: 'string' } } }
+};
+
+export const ROUTE_SCHEMAS: readonly RouteSchema[] = [
+  XKCD_LIST_ROUTE,
+  XKCD_INFO_ROUTE,
+  XKCD_RELATED_ROUTE,
+  XKCD_THUMB_UP_ROUTE,
+  XKCD_UNLIKE_ROUTE,
+  XKCD_TOP_ROUTE,
+  XKCD_RANDOM_ROUTE,
+  XKCD_SUGGEST_ROUTE,
+  XKCD_SEARCH_ROUTE,
+  XKCD_ON_THIS_DAY_ROUTE,
+  XKCD_DAILY_ROUTE,
+  XKCD_CALENDAR_ROUTE,
+  XKCD_BATCH_ROUTE,
+  XKCD_BATCH_POST_ROUTE,
+  WHAT_IF_LIST_ROUTE,
+  WHAT_IF_GET_ROUTE,
+  WHAT_IF_IMAGES_ROUTE,
+  WHAT_IF_OFFLINE_ROUTE,
+  WHAT_IF_OFFLINE_ZIP_ROUTE,
+  WHAT_IF_THUMB_UP_ROUTE,
+  WHAT_IF_UNLIKE_ROUTE,
+  WHAT_IF_TOP_ROUTE,
+  WHAT_IF_RANDOM_ROUTE,
+  WHAT_IF_SUGGEST_ROUTE,
+  WHAT_IF_SEARCH_ROUTE,
+  LOCALIZED_ARCHIVE_ROUTE,
+  LOCALIZED_SEARCH_ROUTE,
+  LOCALIZED_INFO_ROUTE,
+  LOCALIZED_THUMB_UP_ROUTE,
+  LOCALIZED_UNLIKE_ROUTE,
+  LOCALIZED_TOP_ROUTE,
+  LOCALIZED_DAILY_ROUTE,
+  FAVORITES_LIST_ROUTE,
+  FAVORITES_ADD_ROUTE,
+  FAVORITES_REMOVE_ROUTE,
+  READ_PROGRESS_ROUTE,
+  READ_PROGRESS_SEEN_ROUTE,
+  V2_COMICS_ROUTE,
+  V2_COMIC_RANDOM_ROUTE,
+  V2_COMIC_SEARCH_ROUTE,
+  V2_COMIC_BATCH_ROUTE,
+  V2_COMIC_BATCH_POST_ROUTE,
+  V2_COMIC_ROUTE,
+  V2_WHAT_IF_LIST_ROUTE,
+  V2_WHAT_IF_RANDOM_ROUTE,
+  V2_WHAT_IF_ROUTE,
+  V2_LOCALIZED_COMICS_ROUTE,
+  V2_LOCALIZED_SEARCH_ROUTE,
+  V2_LOCALIZED_COMIC_ROUTE,
+  CRAWLER_LOGS_ROUTE,
+  CRAWLER_LOCALIZED_START_ROUTE,
+  PING_ROUTE,
+  OPENAPI_ROUTE,
+  DOCS_ROUTE
+];
@@ -0,0 +1,276 @@
+import { RouterType } from 'itty-router';
+import { createEnvelopeResponse, createEnvelopeError } from '../http/response';
+import { withCache, withDynamicCache } from '../http/cache';
+import { buildPageCursors, CURSOR_SECRET_MISSING, getCursorSecret, resolveCursorPage } from '../http/cursor';
+import { selectComicFields } from '../http/fields';
+import { isDateFilterClosed, toDateFilter } from '../http/params';
+import { toComicDto, toComicSearchResultDto, toLocalizedComicDto, toWhatIfDto } from '../http/dto';
+import { buildFtsQuery } from '../search/fts';
+import { Database } from '../database';
+import { ApiResponse, LocalizedComic, SupportedLanguage } from '../types';
+import { getInput, validateRequest } from '../http/schema';
+import { V2_COMICS_ROUTE, V2_COMIC_RANDOM_ROUTE, V2_COMIC_SEARCH_ROUTE, V2_COMIC_BATCH_ROUTE, V2_COMIC_BATCH_POST_ROUTE, V2_COMIC_ROUTE, V2_WHAT_IF_LIST_ROUTE, V2_WHAT_IF_RANDOM_ROUTE, V2_WHAT_IF_ROUTE, V2_LOCALIZED_COMICS_ROUTE, V2_LOCALIZED_SEARCH_ROUTE, V2_LOCALIZED_COMIC_ROUTE } from './schemas';
+
+/**
+ * Shared handler for GET and POST /v2/comics/batch
+ */
+async function handleComicBatch(db: Database, ids: number[], locale?: SupportedLanguage): Promise<Response> {
+  const found = await db.getComicsByIds(ids, locale);
+  const byId = new Map(found.map(comic => [comic.id, comic]));
+  const comics = ids.filter(id => byId.has(id)).map(id => toComicDto(byId.get(id)!));
+  const missing = ids.filter(id => !byId.has(id));
+  return createEnvelopeResponse(comics, { missing });
+}
+
+/**
+ * Register /v2 routes
+ * Every response uses the { data, meta, error } envelope; pagination lives in meta.pagination
+ * v2 has no per-field selection: the compact DTO by default, every column with ?full=1
+ */
+export function registerV2Routes(router: RouterType) {
+  // GET /v2/comics?cursor=&size=&order=asc|desc&year=&month=&day=&full=1
+  router.get('/comics', validateRequest(V2_COMICS_ROUTE), withDynamicCache(async (request, env, ctx, { db }) => {
+    try {
+      const input = getInput(request);
+      const { cursor, size, order, full } = input;
+      const dateFilter = toDateFilter(input);
+      const secret = getCursorSecret(env);
+      if (!secret) return createEnvelopeError(CURSOR_SECRET_MISSING, 503);
+
+      const page = await resolveCursorPage(cursor || '', 'xkcd', secret, {
+        order,
+        direction: 'next',
+        anchorId: null,
+        size
+      });
+      if (!page) return createEnvelopeError('Invalid cursor', 400);
+
+      const { comics, hasNext, hasPrev } = await db.getComicsByCursor(page, dateFilter, selectComicFields(full));
+      const cursors = await buildPageCursors(comics, { scope: 'xkcd', order: page.order, size: page.size, hasNext, hasPrev }, secret);
+
+      return createEnvelopeResponse(comics.map(toComicDto), {
+        order: page.order,
+        pagination: { size: page.size, hasMore: cursors.next !== null, ...cursors }
+      });
+    } catch (error) {
+      console.error('Error in /v2/comics:', error);
+      return createEnvelopeError('Failed to fetch comics list');
+    }
+  },
+  (request) => ({ ttl: 86400, browserTtl: 3600 }),
+  // The page holding the newest comic changes when a comic is published; every other page is stable
+  async (request, response) => {
+    if (response.status !== 200) return null;
+    const { meta } = await response.clone().json() as ApiResponse;
+    const dateFilter = toDateFilter(getInput(request));
+    if (dateFilter && isDateFilterClosed(dateFilter)) {
+      return { ttl: 86400, browserTtl: 3600 };
+    }
+    const pagination = meta.pagination;
+    const holdsNewest = meta.order === 'desc' ? !pagination?.prev : !pagination?.hasMore;
+    return holdsNewest ? { ttl: 300, browserTtl: 60 } : { ttl: 86400, browserTtl: 3600 };
+  }));
+
+  // GET /v2/comics/random
+  router.get('/comics/random', validateRequest(V2_COMIC_RANDOM_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const comic = await db.getRandomComic(selectComicFields(getInput(request).full));
+      if (!comic) return createEnvelopeError('No comics found', 404);
+      return createEnvelopeResponse(toComicDto(comic));
+    } catch (error) {
+      console.error('Error in /v2/comics/random:', error);
+      return createEnvelopeError('Failed to get random comic');
+    }
+  });
+
+  // GET /v2/comics/search?q=&offset=&size=
+  router.get('/comics/search', validateRequest(V2_COMIC_SEARCH_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { q: keyword, size, offset, full } = getInput(request);
+      const query = buildFtsQuery(keyword);
+      if (!query) return createEnvelopeError('Query has no searchable terms', 400);
+
+      const { comics, hasMore, total } = await db.searchComicsFullText(query, size, offset, selectComicFields(full));
+      return createEnvelopeResponse(comics.map(toComicSearchResultDto), {
+        pagination: { size, hasMore, offset, total }
+      });
+    } catch (error) {
+      console.error('Error in /v2/comics/search:', error);
+      return createEnvelopeError('Failed to search comics');
+    }
+  }, {
+    ttl: 600,        // 10 minutes edge cache
+    browserTtl: 120, // 2 minutes browser cache
+    notFoundTtl: 60  // 1 minute for 404
+  }));
+
+  // GET /v2/comics/batch?ids=1,2,3&locale=
+  router.get('/comics/batch', validateRequest(V2_COMIC_BATCH_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { ids, locale } = getInput(request);
+      return await handleComicBatch(db, ids, locale);
+    } catch (error) {
+      console.error('Error in /v2/comics/batch:', error);
+      return createEnvelopeError('Failed to fetch comics');
+    }
+  }, {
+    ttl: 3600,       // 1 hour edge cache
+    browserTtl: 300  // 5 minutes browser cache
+  }));
+
+  // POST /v2/comics/batch (form body with ids= and optional locale=, for long id lists)
+  router.post('/comics/batch', validateRequest(V2_COMIC_BATCH_POST_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const { ids, locale } = getInput(request);
+      return await handleComicBatch(db, ids, locale);
+    } catch (error) {
+      console.error('Error in POST /v2/comics/batch:', error);
+      return createEnvelopeError('Failed to fetch comics');
+    }
+  });
+
+  // GET /v2/comics/:num
+  router.get('/comics/:num', validateRequest(V2_COMIC_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { num, full } = getInput(request);
+      const comic = await db.getComic(num, selectComicFields(full));
+      if (!comic) return createEnvelopeError('Comic not found', 404);
+      return createEnvelopeResponse(toComicDto(comic));
+    } catch (error) {
+      console.error('Error in /v2/comics/:num:', error);
+      return createEnvelopeError('Failed to fetch comic');
+    }
+  }, {
+    ttl: 86400,       // 24 hours edge cache
+    browserTtl: 3600, // 1 hour browser cache
+    notFoundTtl: 600  // 10 minutes for 404
+  }));
+
+  // GET /v2/what-if?cursor=&size=&order=asc|desc
+  router.get('/what-if', validateRequest(V2_WHAT_IF_LIST_ROUTE), withDynamicCache(async (request, env, ctx, { db }) => {
+    try {
+      const { cursor, size, order } = getInput(request);
+      const secret = getCursorSecret(env);
+      if (!secret) return createEnvelopeError(CURSOR_SECRET_MISSING, 503);
+
+      const page = await resolveCursorPage(cursor || '', 'what-if', secret, {
+        order,
+        direction: 'next',
+        anchorId: null,
+        size
+      });
+      if (!page) return createEnvelopeError('Invalid cursor', 400);
+
+      const { whatIfs, hasNext, hasPrev } = await db.getWhatIfsByCursor(page);
+      const cursors = await buildPageCursors(whatIfs, { scope: 'what-if', order: page.order, size: page.size, hasNext, hasPrev }, secret);
+      return createEnvelopeResponse(whatIfs.map(toWhatIfDto), {
+        order: page.order,
+        pagination: { size: page.size, hasMore: cursors.next !== null, ...cursors }
+      });
+    } catch (error) {
+      console.error('Error in /v2/what-if:', error);
+      return createEnvelopeError('Failed to fetch What If articles list');
+    }
+  },
+  (request) => ({ ttl: 3600, browserTtl: 300 }),
+  // The page holding the newest article changes when one is published
+  async (request, response) => {
+    if (response.status !== 200) return null;
+    const { meta } = await response.clone().json() as ApiResponse;
+    const pagination = meta.pagination;
+    const holdsNewest = meta.order === 'desc' ? !pagination?.prev : !pagination?.hasMore;
+    return holdsNewest ? { ttl: 300, browserTtl: 60 } : { ttl: 3600, browserTtl: 300 };
+  }));
+
+  // GET /v2/what-if/random
+  router.get('/what-if/random', validateRequest(V2_WHAT_IF_RANDOM_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const whatIf = await db.getRandomWhatIf();
+      if (!whatIf) return createEnvelopeError('No What If articles found', 404);
+      return createEnvelopeResponse(toWhatIfDto(whatIf));
+    } catch (error) {
+      console.error('Error in /v2/what-if/random:', error);
+      return createEnvelopeError('Failed to get random What If article');
+    }
+  });
+
+  // GET /v2/what-if/:num
+  router.get('/what-if/:num', validateRequest(V2_WHAT_IF_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const { num, full } = getInput(request);
+      const whatIf = await db.getWhatIf(num, full);
+      if (!whatIf) return createEnvelopeError('What If article not found', 404);
+      return createEnvelopeResponse(toWhatIfDto(whatIf));
+    } catch (error) {
+      console.error('Error in /v2/what-if/:num:', error);
+      return createEnvelopeError('Failed to fetch What If article');
+    }
+  });
+
+  // GET /v2/localized/:locale/comics?cursor=&size= (newest translations first)
+  router.get('/localized/:locale/comics', validateRequest(V2_LOCALIZED_COMICS_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { locale, cursor, size } = getInput(request);
+      const scope = `archive:${locale}`;
+      const secret = getCursorSecret(env);
+      if (!secret) return createEnvelopeError(CURSOR_SECRET_MISSING, 503);
+
+      const page = await resolveCursorPage(cursor || '', scope, secret, {
+        order: 'desc',
+        direction: 'next',
+        anchorId: null,
+        size
+      });
+      if (!page) return createEnvelopeError('Invalid cursor', 400);
+
+      const { comics, hasNext, hasPrev } = await db.getLocalizedComicsByCursor(locale, page);
+      const cursors = await buildPageCursors(comics, { scope, order: page.order, size: page.size, hasNext, hasPrev }, secret);
+      return createEnvelopeResponse(comics.map((comic: LocalizedComic) => toLocalizedComicDto(comic, locale)), {
+        locale,
+        pagination: { size: page.size, hasMore: cursors.next !== null, ...cursors }
+      });
+    } catch (error) {
+      console.error('Error in /v2/localized/:locale/comics:', error);
+      return createEnvelopeError('Failed to fetch localized archive');
+    }
+  }, {
+    ttl: 3600,      // 1 hour edge cache (archive updates frequently)
+    browserTtl: 300 // 5 minutes browser cache
+  }));
+
+  // GET /v2/localized/:locale/search?q=&offset=&size=
+  router.get('/localized/:locale/search', validateRequest(V2_LOCALIZED_SEARCH_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { locale, q: keyword, size, offset } = getInput(request);
+
+      const { comics, hasMore } = await db.searchLocalizedComics(locale, keyword, size, offset);
+      return createEnvelopeResponse(comics.map((comic: LocalizedComic) => toLocalizedComicDto(comic, locale)), {
+        locale,
+        pagination: { size, hasMore, offset }
+      });
+    } catch (error) {
+      console.error('Error in /v2/localized/:locale/search:', error);
+      return createEnvelopeError('Failed to search localized comics');
+    }
+  }, {
+    ttl: 600,        // 10 minutes edge cache
+    browserTtl: 120  // 2 minutes browser cache
+  }));
+
+  // GET /v2/localized/:locale/comics/:num
+  router.get('/localized/:locale/comics/:num', validateRequest(V2_LOCALIZED_COMIC_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { locale, num } = getInput(request);
+      const comic = await db.getLocalizedComic(num, locale);
+      if (!comic) return createEnvelopeError('Localized comic not found', 404);
+      return createEnvelopeResponse(toLocalizedComicDto(comic, locale));
+    } catch (error) {
+      console.error('Error in /v2/localized/:locale/comics/:num:', error);
+      return createEnvelopeError('Failed to fetch localized comic');
+    }
+  }, {
+    ttl: 86400,        // 24 hours edge cache (localized comics rarely change)
+    browserTtl: 3600,  // 1 hour browser cache
+    notFoundTtl: 600   // 10 minutes for 404 (comic might be translated soon)
+  }));
+}
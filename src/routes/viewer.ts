@@ -1,5 +1,9 @@
 import { RouterType } from 'itty-router';
 import viewerHtml from '../templates/viewer.html';
+import { getRelatedComics } from '../search/related';
+
+// Comics shown in the related strip
+const VIEWER_RELATED_SIZE = 8;
 
 /**
  * Register HTML viewer routes
@@ -51,6 +55,10 @@ export function registerViewerRoutes(router: RouterType) {
       });
     }
 
+      // Fetch related comics (same data as /:comicId/related)
+      const related = await getRelatedComics(db, comicId, VIEWER_RELATED_SIZE);
+      const relatedById = new Map<number, any>((await db.getComicsByIds(related.map(({ id }) => id))).map((c: any) => [c.id, c]));
+
       // Build navigation HTML
       const navigationHtml = `
       <a href="/view/1" class="nav-btn" ${comicId === 1 ? 'style="pointer-events:none;background:#bdc3c7"' : ''}>&lt;&lt; First</a>
@@ -101,6 +109,21 @@ ${localizedComics.map(({ lang, langName, comic: loc, potentialUrl }) => {
       }).join('\n')}
 </div>`;
 
+      // Build related comics strip HTML (hidden when nothing is related)
+      const relatedComics = related.filter(({ id }) => relatedById.has(id));
+      const relatedComicsHtml = relatedComics.length > 0
+        ? `<h2>🔗 Related</h2>
+    <div class="related-strip">
+${relatedComics.map(({ id, crossReference }) => {
+          const rel = relatedById.get(id);
+          return `      <a href="/view/${id}" class="related-comic${crossReference ? ' cross-reference' : ''}" title="${rel.alt || ''}">
+        <img src="${rel.img}" alt="${rel.title}" loading="lazy" />
+        <div>#${id}: ${rel.title}</div>
+      </a>`;
+        }).join('\n')}
+    </div>`
+        : '';
+
       // Replace placeholders in template
       const html = viewerHtml
         .replace(/{{COMIC_ID}}/g, String(comicId))
@@ -111,6 +134,7 @@ ${localizedComics.map(({ lang, langName, comic: loc, potentialUrl }) => {
         .replace(/{{COMIC_ALT}}/g, comic.alt || comic.title)
         .replace(/{{COMIC_ALT_TEXT}}/g, comicAltHtml)
         .replace(/{{COMIC_LINK}}/g, comicLinkHtml)
+        .replace(/{{RELATED_COMICS}}/g, relatedComicsHtml)
         .replace(/{{LOCALIZED_COMICS}}/g, localizedComicsHtml);
 
       return new Response(html, {
@@ -1,31 +1,49 @@
 import { RouterType } from 'itty-router';
-import { createJsonResponse, createErrorResponse } from '../http/response';
-
-// Helper function to convert id to num in response objects
-function convertIdToNum(obj: any): any {
-  if (obj && typeof obj === 'object') {
-    if (Array.isArray(obj)) {
-      return obj.map(convertIdToNum);
-    } else {
-      const converted = { ...obj };
-      if ('id' in converted) {
-        converted.num = converted.id;
-        delete converted.id;
-      }
-      return converted;
-    }
-  }
-  return obj;
-}
+import { createJsonResponse, createErrorResponse, convertIdToNum } from '../http/response';
+import { withCache, withDynamicCache } from '../http/cache';
+import { buildLinkHeader, buildPageCursors, CURSOR_SECRET_MISSING, getCursorSecret, resolveCursorPage } from '../http/cursor';
+import { getInput, validateRequest } from '../http/schema';
+import { DEVICE_ID_HEADER, getClientHash, getDeviceHash } from '../http/client';
+import { addLike, removeLike } from '../likes/counter';
+import { expandTopPage, getTopPage } from '../likes/ranking';
+import { getSeenRanges } from '../progress/ranges';
+import { IdRange, WhatIf } from '../types';
+import { buildFtsQuery } from '../search/fts';
+import { buildOfflineWhatIf, getOfflineFileName, offlineWhatIfEntries } from '../offline/whatif';
+import { createZipStream } from '../offline/zip';
+import { WHAT_IF_LIST_ROUTE, WHAT_IF_GET_ROUTE, WHAT_IF_IMAGES_ROUTE, WHAT_IF_OFFLINE_ROUTE, WHAT_IF_OFFLINE_ZIP_ROUTE, WHAT_IF_THUMB_UP_ROUTE, WHAT_IF_UNLIKE_ROUTE, WHAT_IF_TOP_ROUTE, WHAT_IF_RANDOM_ROUTE, WHAT_IF_SUGGEST_ROUTE, WHAT_IF_SEARCH_ROUTE } from './schemas';
 
 export function registerWhatIfRoutes(router: RouterType) {
   // GET /what-if-list
-  router.get('/what-if-list', async (request, env, ctx, { db }) => {
+  router.get('/what-if-list', validateRequest(WHAT_IF_LIST_ROUTE), withDynamicCache(async (request, env, ctx, { db }) => {
     try {
       const url = new URL(request.url);
-      const start = parseInt(url.searchParams.get('start') || '0');
-      const size = parseInt(url.searchParams.get('size') || '100');
-      const reversed = url.searchParams.get('reversed') === '1';
+      const { start, size, reversed, cursor } = getInput(request);
+      const secret = getCursorSecret(env);
+
+      // Cursor mode: ?cursor=<token> (empty token starts at the beginning of the list)
+      if (cursor !== undefined) {
+        if (!secret) return createErrorResponse(CURSOR_SECRET_MISSING, 503);
+        const page = await resolveCursorPage(cursor, 'what-if', secret, {
+          order: reversed ? 'desc' : 'asc',
+          direction: 'next',
+          // Legacy start is inclusive, cursor anchors are exclusive
+          anchorId: url.searchParams.has('start') ? (reversed ? start + 1 : start - 1) : null,
+          size
+        });
+        if (!page) return createErrorResponse('Invalid cursor', 400);
+
+        const { whatIfs, hasNext, hasPrev } = await db.getWhatIfsByCursor(page);
+        const cursors = await buildPageCursors(whatIfs, { scope: 'what-if', order: page.order, size: page.size, hasNext, hasPrev }, secret);
+
+        const response = createJsonResponse({ items: convertIdToNum(whatIfs), ...cursors });
+        response.headers.set('X-Pagination-Size', page.size.toString());
+        response.headers.set('X-Pagination-Reversed', page.order === 'desc' ? '1' : '0');
+        response.headers.set('X-Pagination-HasMore', cursors.next ? '1' : '0');
+        const link = buildLinkHeader(request.url, cursors);
+        if (link) response.headers.set('Link', link);
+        return response;
+      }
 
       const { whatIfs, hasMore, total } = await db.getWhatIfList(start, size, reversed);
 
@@ -36,23 +54,37 @@ export function registerWhatIfRoutes(router: RouterType) {
       response.headers.set('X-Pagination-Total', total.toString());
       response.headers.set('X-Pagination-HasMore', hasMore ? '1' : '0');
       response.headers.set('X-Pagination-NextStart', hasMore ? (start + size).toString() : '');
+
+      // Advertise cursors so legacy clients can switch over without computing ids
+      if (secret && whatIfs.length > 0) {
+        const order = reversed ? 'desc' : 'asc';
+        const hasPrev = await db.hasRowsBefore('what_if', whatIfs[0].id, order);
+        const cursors = await buildPageCursors(whatIfs, { scope: 'what-if', order, size, hasNext: hasMore, hasPrev }, secret);
+        const link = buildLinkHeader(request.url, cursors);
+        if (link) response.headers.set('Link', link);
+      }
       return response;
     } catch (error) {
       console.error('Error in /what-if-list:', error);
       return createErrorResponse('Failed to fetch What If articles list');
     }
-  });
+  },
+  (request) => ({ ttl: 3600, browserTtl: 300 }),
+  // The chunk holding the newest article changes when one is published; X-Pagination-Total of
+  // the other chunks may lag by up to an hour
+  (request, response) => {
+    const link = response.headers.get('Link') || '';
+    const reversed = response.headers.get('X-Pagination-Reversed') === '1';
+    const hasMore = response.headers.get('X-Pagination-HasMore') === '1';
+    const holdsNewest = reversed ? !link.includes('rel="prev"') : !hasMore;
+    return holdsNewest ? { ttl: 300, browserTtl: 60 } : { ttl: 3600, browserTtl: 300 };
+  }));
 
-  // GET /what-if/:id
-  router.get('/what-if/:id', async (request, env, ctx, { db }) => {
+  // GET /what-if/:id?full=1 (full = with question, answer, images and footnotes)
+  router.get('/what-if/:id', validateRequest(WHAT_IF_GET_ROUTE), async (request, env, ctx, { db }) => {
     try {
-      const url = new URL(request.url);
-      // Extract ID from /what-if/:id pattern
-      const pathMatch = url.pathname.match(/\/what-if\/(\d+)/);
-      if (!pathMatch) return createErrorResponse('Invalid What If article ID', 400);
-      const id = parseInt(pathMatch[1]);
-      if (isNaN(id) || id <= 0) return createErrorResponse('Invalid What If article ID', 400);
-      const whatIf = await db.getWhatIf(id);
+      const { id, full } = getInput(request);
+      const whatIf = await db.getWhatIf(id, full);
       if (!whatIf) return createErrorResponse('What If article not found', 404);
       return createJsonResponse(convertIdToNum(whatIf));
     } catch (error) {
@@ -61,43 +93,138 @@ export function registerWhatIfRoutes(router: RouterType) {
     }
   });
 
-  // POST /what-if-thumb-up
-  router.post('/what-if-thumb-up', async (request, env, ctx, { db }) => {
+  // GET /what-if/:id/images (archive thumbnail and illustrations with their sizes)
+  router.get('/what-if/:id/images', validateRequest(WHAT_IF_IMAGES_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { id } = getInput(request);
+      if (!(await db.getWhatIf(id))) return createErrorResponse('What If article not found', 404);
+      return createJsonResponse(await db.getWhatIfImages(id));
+    } catch (error) {
+      console.error('Error in /what-if/:id/images:', error);
+      return createErrorResponse('Failed to fetch What If article images');
+    }
+  }, {
+    ttl: 3600,       // 1 hour edge cache
+    browserTtl: 300, // 5 minutes browser cache
+    notFoundTtl: 60  // 1 minute for 404
+  }));
+
+  // GET /what-if/:id/offline (self-contained HTML document with inlined images)
+  router.get('/what-if/:id/offline', validateRequest(WHAT_IF_OFFLINE_ROUTE), withCache(async (request, env, ctx, { db }) => {
     try {
-      const formData = await request.formData();
-      const articleId = parseInt((formData.get('what_if_id') as string) || '0');
-      if (isNaN(articleId) || articleId <= 0) return createErrorResponse('Invalid what_if_id parameter', 400);
+      const { id } = getInput(request);
+      const whatIf = await db.getWhatIf(id, true);
+      if (!whatIf) return createErrorResponse('What If article not found', 404);
+      if (!whatIf.answer) return createErrorResponse('What If article content not available yet', 404);
+
+      return new Response(await buildOfflineWhatIf(db, whatIf), {
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Content-Disposition': `inline; filename="${getOfflineFileName(id)}"`
+        }
+      });
+    } catch (error) {
+      console.error('Error in /what-if/:id/offline:', error);
+      return createErrorResponse('Failed to build offline What If article');
+    }
+  }, {
+    ttl: 86400,       // 1 day edge cache (articles rarely change)
+    browserTtl: 3600, // 1 hour browser cache
+    notFoundTtl: 300  // 5 minutes for 404 (content may be crawled soon)
+  }));
+
+  // GET /what-if-offline?ids=1,2,3 (ZIP of offline documents, streamed as they are built)
+  router.get('/what-if-offline', validateRequest(WHAT_IF_OFFLINE_ZIP_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const { ids } = getInput(request);
+      const whatIfs: WhatIf[] = (await db.getFullWhatIfs(ids)).filter((whatIf: WhatIf) => whatIf.answer);
+      if (whatIfs.length === 0) return createErrorResponse('No What If article content available', 404);
+
+      const included = new Set(whatIfs.map(whatIf => whatIf.id));
+      const missing = ids.filter((id: number) => !included.has(id));
+      const response = new Response(createZipStream(offlineWhatIfEntries(db, whatIfs)), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': 'attachment; filename="what-if-offline.zip"',
+          'Cache-Control': 'public, max-age=3600'
+        }
+      });
+      if (missing.length > 0) response.headers.set('X-Missing-Ids', missing.join(','));
+      return response;
+    } catch (error) {
+      console.error('Error in /what-if-offline:', error);
+      return createErrorResponse('Failed to build offline What If articles');
+    }
+  });
+
+  // POST /what-if-thumb-up (idempotent per client, see getClientHash)
+  router.post('/what-if-thumb-up', validateRequest(WHAT_IF_THUMB_UP_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const { what_if_id: articleId } = getInput(request);
       const whatIf = await db.getWhatIf(articleId);
       if (!whatIf) return createErrorResponse('What If article not found', 404);
-      const newCount = await db.incrementLikeCount(articleId, 'what_if');
-      return createJsonResponse({ thumbCount: newCount, num: articleId });
+      const { count, changed } = await addLike(db, env, await getClientHash(request, env), articleId, 'what_if');
+      return createJsonResponse({ thumbCount: count, num: articleId, liked: true, changed });
     } catch (error) {
       console.error('Error in /what-if-thumb-up:', error);
       return createErrorResponse('Failed to process What If thumb-up');
     }
   });
 
+  // POST /what-if-unlike
+  router.post('/what-if-unlike', validateRequest(WHAT_IF_UNLIKE_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const { what_if_id: articleId } = getInput(request);
+      const whatIf = await db.getWhatIf(articleId);
+      if (!whatIf) return createErrorResponse('What If article not found', 404);
+      const { count, changed } = await removeLike(db, env, await getClientHash(request, env), articleId, 'what_if');
+      return createJsonResponse({ thumbCount: count, num: articleId, liked: false, changed });
+    } catch (error) {
+      console.error('Error in /what-if-unlike:', error);
+      return createErrorResponse('Failed to process What If unlike');
+    }
+  });
+
   // GET /what-if-top
-  router.get('/what-if-top', async (request, env, ctx, { db }) => {
+  router.get('/what-if-top', validateRequest(WHAT_IF_TOP_ROUTE), withCache(async (request, env, ctx, { db }) => {
     try {
-      const url = new URL(request.url);
-      const sortby = url.searchParams.get('sortby') || 'thumb-up';
-      const size = parseInt(url.searchParams.get('size') || '10');
-      if (sortby !== 'thumb-up') return createErrorResponse('Only thumb-up sorting is supported', 400);
-      const topWhatIfs = await db.getTopLiked('what_if', size);
-      const result = topWhatIfs.map((wi: any) => ({ num: wi.comic_id }));
-      return createJsonResponse(result);
+      const { sortby, window, size, offset, expand } = getInput(request);
+      const { ids, total } = await getTopPage(db, 'what_if', { sortby, window, size, offset });
+      const result = expand
+        ? await expandTopPage(db, 'what_if', ids, offset)
+        : ids.map(num => ({ num }));
+
+      const response = createJsonResponse(result);
+      const hasMore = offset + ids.length < total;
+      response.headers.set('X-Pagination-Offset', offset.toString());
+      response.headers.set('X-Pagination-Size', size.toString());
+      response.headers.set('X-Pagination-Total', total.toString());
+      response.headers.set('X-Pagination-HasMore', hasMore ? '1' : '0');
+      if (hasMore) {
+        response.headers.set('X-Pagination-NextOffset', (offset + size).toString());
+      }
+      return response;
     } catch (error) {
       console.error('Error in /what-if-top:', error);
       return createErrorResponse('Failed to get top What If articles');
     }
-  });
+  }, {
+    ttl: 60,        // 1 minute edge cache (likes keep changing)
+    browserTtl: 30  // 30 seconds browser cache
+  }));
 
   // GET /what-if-random
-  router.get('/what-if-random', async (request, env, ctx, { db }) => {
+  router.get('/what-if-random', validateRequest(WHAT_IF_RANDOM_ROUTE), async (request, env, ctx, { db }) => {
     try {
-      const randomWhatIf = await db.getRandomWhatIf();
-      if (!randomWhatIf) return createErrorResponse('No What If articles found', 404);
+      const { excludeSeen } = getInput(request);
+      let seen: IdRange[] = [];
+      if (excludeSeen) {
+        const ownerHash = await getDeviceHash(request, env);
+        if (!ownerHash) return createErrorResponse(`${DEVICE_ID_HEADER} header is required for excludeSeen`, 400);
+        seen = await getSeenRanges(db, ownerHash, 'what_if');
+      }
+      const randomWhatIf = await db.getRandomWhatIf(seen);
+      if (!randomWhatIf) return createErrorResponse(excludeSeen ? 'No unseen What If articles found' : 'No What If articles found', 404);
       return createJsonResponse(convertIdToNum(randomWhatIf));
     } catch (error) {
       console.error('Error in /what-if-random:', error);
@@ -106,12 +233,9 @@ export function registerWhatIfRoutes(router: RouterType) {
   });
 
   // GET /what-if-suggest
-  router.get('/what-if-suggest', async (request, env, ctx, { db }) => {
+  router.get('/what-if-suggest', validateRequest(WHAT_IF_SUGGEST_ROUTE), async (request, env, ctx, { db }) => {
     try {
-      const url = new URL(request.url);
-      const keyword = url.searchParams.get('q');
-      const size = parseInt(url.searchParams.get('size') || '20');
-      if (!keyword) return createErrorResponse('Missing required parameter: q', 400);
+      const { q: keyword, size } = getInput(request);
       const results = await db.searchWhatIf(keyword, size);
       return createJsonResponse(convertIdToNum(results));
     } catch (error) {
@@ -119,6 +243,35 @@ export function registerWhatIfRoutes(router: RouterType) {
       return createErrorResponse('Failed to search What If articles');
     }
   });
+
+  // GET /what-if-search (full-text search with bm25 ranking and highlighted snippets)
+  // Supports "quoted phrases" and prefix* queries; pages with offset/size
+  router.get('/what-if-search', validateRequest(WHAT_IF_SEARCH_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { q: keyword, size, offset } = getInput(request);
+      const query = buildFtsQuery(keyword);
+      if (!query) return createErrorResponse('Query has no searchable terms', 400);
+
+      const { whatIfs, hasMore, total } = await db.searchWhatIfFullText(query, size, offset);
+
+      const response = createJsonResponse(convertIdToNum(whatIfs));
+      response.headers.set('X-Pagination-Offset', offset.toString());
+      response.headers.set('X-Pagination-Size', size.toString());
+      response.headers.set('X-Pagination-Total', total.toString());
+      response.headers.set('X-Pagination-HasMore', hasMore ? '1' : '0');
+      if (hasMore) {
+        response.headers.set('X-Pagination-NextOffset', (offset + size).toString());
+      }
+      return response;
+    } catch (error) {
+      console.error('Error in /what-if-search:', error);
+      return createErrorResponse('Failed to search What If articles');
+    }
+  }, {
+    ttl: 600,        // 10 minutes edge cache
+    browserTtl: 120, // 2 minutes browser cache
+    notFoundTtl: 60  // 1 minute for 404
+  }));
 }
 
 
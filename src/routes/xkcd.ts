@@ -1,37 +1,73 @@
 import { RouterType } from 'itty-router';
-import { createJsonResponse, createErrorResponse } from '../http/response';
-import { resolveLocale } from '../i18n/locale';
-import { withCache, withDynamicCache } from '../http/cache';
-
-// Helper function to convert id to num in response objects
-function convertIdToNum(obj: any): any {
-  if (obj && typeof obj === 'object') {
-    if (Array.isArray(obj)) {
-      return obj.map(convertIdToNum);
-    } else {
-      const converted = { ...obj };
-      if ('id' in converted) {
-        converted.num = converted.id;
-        delete converted.id;
-      }
-      return converted;
-    }
-  }
-  return obj;
+import { createJsonResponse, createErrorResponse, convertIdToNum } from '../http/response';
+import { Database } from '../database';
+import { Comic, RandomFilter, SupportedLanguage } from '../types';
+import { withCache, withDynamicCache, secondsUntilUtcMidnight } from '../http/cache';
+import { buildLinkHeader, buildPageCursors, CURSOR_SECRET_MISSING, getCursorSecret, resolveCursorPage } from '../http/cursor';
+import { buildFtsQuery } from '../search/fts';
+import { normalizeComicFieldsKey, selectComicFields } from '../http/fields';
+import { isDateFilterClosed, toDateFilter } from '../http/params';
+import { getInput, validateRequest } from '../http/schema';
+import { DEVICE_ID_HEADER, getClientHash, getDeviceHash } from '../http/client';
+import { addLike, removeLike } from '../likes/counter';
+import { expandTopPage, formatDay, getTopPage } from '../likes/ranking';
+import { getSeenRanges } from '../progress/ranges';
+import { createRandom } from '../utils/random';
+import { getDailyComicId } from '../daily/pick';
+import { getRelatedComics } from '../search/related';
+import { XKCD_LIST_ROUTE, XKCD_INFO_ROUTE, XKCD_RELATED_ROUTE, XKCD_THUMB_UP_ROUTE, XKCD_UNLIKE_ROUTE, XKCD_TOP_ROUTE, XKCD_RANDOM_ROUTE, XKCD_SUGGEST_ROUTE, XKCD_SEARCH_ROUTE, XKCD_ON_THIS_DAY_ROUTE, XKCD_DAILY_ROUTE, XKCD_CALENDAR_ROUTE, XKCD_BATCH_ROUTE, XKCD_BATCH_POST_ROUTE } from './schemas';
+
+/**
+ * Shared handler for GET and POST /xkcd-batch
+ */
+async function handleComicBatch(db: Database, ids: number[], locale?: SupportedLanguage): Promise<Response> {
+  const found = await db.getComicsByIds(ids, locale);
+  const byId = new Map(found.map(comic => [comic.id, comic]));
+
+  const comics = ids.filter(id => byId.has(id)).map(id => byId.get(id)!);
+  const missing = ids.filter(id => !byId.has(id));
+  return createJsonResponse({ comics: convertIdToNum(comics), missing });
 }
 
 export function registerXkcdRoutes(router: RouterType) {
   // GET /xkcd-list
   // Apply dynamic caching: long cache for non-last chunks, short cache for last chunk
   // Cache time is determined by hasMore flag from response (no hardcoded values)
-  router.get('/xkcd-list', withDynamicCache(async (request, env, ctx, { db }) => {
+  router.get('/xkcd-list', validateRequest(XKCD_LIST_ROUTE), withDynamicCache(async (request, env, ctx, { db }) => {
     try {
       const url = new URL(request.url);
-      const start = parseInt(url.searchParams.get('start') || '0');
-      const size = parseInt(url.searchParams.get('size') || '100');
-      const reversed = url.searchParams.get('reversed') === '1';
+      const input = getInput(request);
+      const { start, size, reversed, cursor } = input;
+      const secret = getCursorSecret(env);
+      const dateFilter = toDateFilter(input);
+      const fields = selectComicFields(input.full, input.fields);
+
+      // Cursor mode: ?cursor=<token> (empty token starts at the beginning of the list)
+      if (cursor !== undefined) {
+        if (!secret) return createErrorResponse(CURSOR_SECRET_MISSING, 503);
+        const order = reversed ? 'desc' : 'asc';
+        const page = await resolveCursorPage(cursor, 'xkcd', secret, {
+          order,
+          direction: 'next',
+          // Legacy start is inclusive, cursor anchors are exclusive
+          anchorId: url.searchParams.has('start') ? (reversed ? start + 1 : start - 1) : null,
+          size
+        });
+        if (!page) return createErrorResponse('Invalid cursor', 400);
 
-      const { comics, hasMore } = await db.getComicsWithPagination(start, size, reversed);
+        const { comics, hasNext, hasPrev } = await db.getComicsByCursor(page, dateFilter, fields);
+        const cursors = await buildPageCursors(comics, { scope: 'xkcd', order: page.order, size: page.size, hasNext, hasPrev }, secret);
+
+        const response = createJsonResponse({ items: convertIdToNum(comics), ...cursors });
+        response.headers.set('X-Pagination-Size', page.size.toString());
+        response.headers.set('X-Pagination-Reversed', page.order === 'desc' ? '1' : '0');
+        response.headers.set('X-Pagination-HasMore', cursors.next ? '1' : '0');
+        const link = buildLinkHeader(request.url, cursors);
+        if (link) response.headers.set('Link', link);
+        return response;
+      }
+
+      const { comics, hasMore } = await db.getComicsWithPagination(start, size, reversed, false, dateFilter, fields);
 
       const response = createJsonResponse(convertIdToNum(comics));
       response.headers.set('X-Pagination-Start', start.toString());
@@ -41,6 +77,15 @@ export function registerXkcdRoutes(router: RouterType) {
       if (hasMore) {
         response.headers.set('X-Pagination-NextStart', (start + size).toString());
       }
+
+      // Advertise cursors so legacy clients can switch over without computing ids
+      if (secret && comics.length > 0) {
+        const order = reversed ? 'desc' : 'asc';
+        const hasPrev = await db.hasRowsBefore('comics', comics[0].id, order, dateFilter);
+        const cursors = await buildPageCursors(comics, { scope: 'xkcd', order, size, hasNext: hasMore, hasPrev }, secret);
+        const link = buildLinkHeader(request.url, cursors);
+        if (link) response.headers.set('Link', link);
+      }
       return response;
     } catch (error) {
       console.error('Error in /xkcd-list:', error);
@@ -54,11 +99,17 @@ export function registerXkcdRoutes(router: RouterType) {
   },
   // Cache options based on response - determines if this is the last chunk
   (request, response) => {
-    const url = new URL(request.url);
-    const start = parseInt(url.searchParams.get('start') || '0');
-    const size = parseInt(url.searchParams.get('size') || '100');
-    const reversed = url.searchParams.get('reversed') === '1';
+    const input = getInput(request);
+    const { start, size, cursor } = input;
+    // Cursor pages carry their order inside the token, so read it back from the response
+    const reversed = response.headers.get('X-Pagination-Reversed') === '1';
     const hasMore = response.headers.get('X-Pagination-HasMore') === '1';
+
+    // A period that is over can't gain new comics, so every chunk of it is stable
+    const dateFilter = toDateFilter(input);
+    if (dateFilter && isDateFilterClosed(dateFilter)) {
+      return { ttl: 86400, browserTtl: 3600 };
+    }
     
     // For reversed queries, we can't reliably determine last chunk from hasMore alone
     // So we use default long cache for reversed queries
@@ -67,7 +118,7 @@ export function registerXkcdRoutes(router: RouterType) {
     }
     
     // Special case: if size is 1 and start <= 3000, use long cache (old comics)
-    if (size === 1 && start <= 3000) {
+    if (cursor === undefined && size === 1 && start <= 3000) {
       // Long cache for old comics (24 hours edge, 1 hour browser)
       return { ttl: 86400, browserTtl: 3600 };
     }
@@ -81,27 +132,21 @@ export function registerXkcdRoutes(router: RouterType) {
       // Long cache for other chunks (24 hours edge, 1 hour browser)
       return { ttl: 86400, browserTtl: 3600 };
     }
-  }));
+  },
+  // Equivalent field selections share one cache entry
+  { normalizeKey: normalizeComicFieldsKey }));
 
   // GET /:comicId/info.0.json (official; supports ?locale fallback)
-  router.get('/:comicId/info.0.json', withCache(async (request, env, ctx, { db }) => {
+  router.get('/:comicId/info.0.json', validateRequest(XKCD_INFO_ROUTE), withCache(async (request, env, ctx, { db }) => {
     try {
-      const url = new URL(request.url);
-      // Extract comicId from /xkcd/:comicId/info.0.json pattern (with base /xkcd)
-      const pathMatch = url.pathname.match(/^\/xkcd\/(\d+)\/info\.0\.json$/);
-      if (!pathMatch) return createErrorResponse('Invalid comic ID', 400);
-      const comicId = parseInt(pathMatch[1]);
-      if (isNaN(comicId) || comicId <= 0) return createErrorResponse('Invalid comic ID', 400);
-
-      const localeParam = url.searchParams.get('locale');
-      if (localeParam) {
-        const locale = resolveLocale(localeParam);
+      const { comicId, locale, full, fields } = getInput(request);
+      if (locale) {
         const localized = await db.getLocalizedComic(comicId, locale);
         if (!localized) return createErrorResponse('Localized comic not found', 404);
         return createJsonResponse(convertIdToNum(localized));
       }
 
-      const comic = await db.getComic(comicId);
+      const comic = await db.getComic(comicId, selectComicFields(full, fields));
       if (!comic) return createErrorResponse('Comic not found', 404);
       return createJsonResponse(convertIdToNum(comic));
     } catch (error) {
@@ -111,49 +156,107 @@ export function registerXkcdRoutes(router: RouterType) {
   }, {
     ttl: 86400,        // 24 hours edge cache
     browserTtl: 3600,  // 1 hour browser cache
+    notFoundTtl: 600,  // 10 minutes for 404
+    normalizeKey: normalizeComicFieldsKey
+  }));
+
+  // GET /:comicId/related?size= (similar and cross-referenced comics)
+  router.get('/:comicId/related', validateRequest(XKCD_RELATED_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { comicId, size } = getInput(request);
+      if (!(await db.getComic(comicId, []))) return createErrorResponse('Comic not found', 404);
+
+      const related = await getRelatedComics(db, comicId, size);
+      const found: Comic[] = await db.getComicsByIds(related.map(({ id }) => id));
+      const byId = new Map(found.map(comic => [comic.id, comic]));
+      const comics = related
+        .filter(({ id }) => byId.has(id))
+        .map(({ id, score, crossReference }) => ({ ...byId.get(id)!, score, crossReference }));
+      return createJsonResponse(convertIdToNum(comics));
+    } catch (error) {
+      console.error('Error in /:comicId/related:', error);
+      return createErrorResponse('Failed to fetch related comics');
+    }
+  }, {
+    ttl: 3600,         // 1 hour edge cache (new comics join the index)
+    browserTtl: 3600,  // 1 hour browser cache
     notFoundTtl: 600   // 10 minutes for 404
   }));
 
-  // POST /xkcd-thumb-up
-  router.post('/xkcd-thumb-up', async (request, env, ctx, { db }) => {
+  // POST /xkcd-thumb-up (idempotent per client, see getClientHash)
+  router.post('/xkcd-thumb-up', validateRequest(XKCD_THUMB_UP_ROUTE), async (request, env, ctx, { db }) => {
     try {
-      const formData = await request.formData();
-      const comicId = parseInt((formData.get('comic_id') as string) || '0');
-      if (isNaN(comicId) || comicId <= 0) {
-        return createErrorResponse('Invalid comic_id parameter', 400);
-      }
+      const { comic_id: comicId } = getInput(request);
       const comic = await db.getComic(comicId);
       if (!comic) return createErrorResponse('Comic not found', 404);
-      const newCount = await db.incrementLikeCount(comicId, 'comic');
-      return createJsonResponse({ thumbCount: newCount, num: comicId });
+      const { count, changed } = await addLike(db, env, await getClientHash(request, env), comicId, 'comic');
+      return createJsonResponse({ thumbCount: count, num: comicId, liked: true, changed });
     } catch (error) {
       console.error('Error in /xkcd-thumb-up:', error);
       return createErrorResponse('Failed to process thumb-up');
     }
   });
 
+  // POST /xkcd-unlike
+  router.post('/xkcd-unlike', validateRequest(XKCD_UNLIKE_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const { comic_id: comicId } = getInput(request);
+      const comic = await db.getComic(comicId);
+      if (!comic) return createErrorResponse('Comic not found', 404);
+      const { count, changed } = await removeLike(db, env, await getClientHash(request, env), comicId, 'comic');
+      return createJsonResponse({ thumbCount: count, num: comicId, liked: false, changed });
+    } catch (error) {
+      console.error('Error in /xkcd-unlike:', error);
+      return createErrorResponse('Failed to process unlike');
+    }
+  });
+
   // GET /xkcd-top
-  router.get('/xkcd-top', async (request, env, ctx, { db }) => {
+  router.get('/xkcd-top', validateRequest(XKCD_TOP_ROUTE), withCache(async (request, env, ctx, { db }) => {
     try {
-      const url = new URL(request.url);
-      const sortby = url.searchParams.get('sortby') || 'thumb-up';
-      const size = parseInt(url.searchParams.get('size') || '10');
-      if (sortby !== 'thumb-up') return createErrorResponse('Only thumb-up sorting is supported', 400);
-      const topComics = await db.getTopLiked('comic', size);
-      const result = topComics.map((comic: any) => ({ num: comic.comic_id }));
-      return createJsonResponse(result);
+      const { sortby, window, size, offset, expand } = getInput(request);
+      const { ids, total } = await getTopPage(db, 'comic', { sortby, window, size, offset });
+      const result = expand
+        ? await expandTopPage(db, 'comic', ids, offset)
+        : ids.map(num => ({ num }));
+
+      const response = createJsonResponse(result);
+      const hasMore = offset + ids.length < total;
+      response.headers.set('X-Pagination-Offset', offset.toString());
+      response.headers.set('X-Pagination-Size', size.toString());
+      response.headers.set('X-Pagination-Total', total.toString());
+      response.headers.set('X-Pagination-HasMore', hasMore ? '1' : '0');
+      if (hasMore) {
+        response.headers.set('X-Pagination-NextOffset', (offset + size).toString());
+      }
+      return response;
     } catch (error) {
       console.error('Error in /xkcd-top:', error);
       return createErrorResponse('Failed to get top comics');
     }
-  });
+  }, {
+    ttl: 60,        // 1 minute edge cache (likes keep changing)
+    browserTtl: 30  // 30 seconds browser cache
+  }));
 
   // GET /xkcd-random
-  router.get('/xkcd-random', async (request, env, ctx, { db }) => {
+  router.get('/xkcd-random', validateRequest(XKCD_RANDOM_ROUTE), async (request, env, ctx, { db }) => {
     try {
-      const randomComic = await db.getRandomComic();
-      if (!randomComic) return createErrorResponse('No comics found', 404);
-      return createJsonResponse(convertIdToNum(randomComic));
+      const { from, to, year, locale, count, seed, full, fields, excludeSeen } = getInput(request);
+      if (from !== undefined && to !== undefined && from > to) {
+        return createErrorResponse('from must not be greater than to', 400);
+      }
+      const filter: RandomFilter = { from, to, dateFilter: toDateFilter({ year }), language: locale };
+      if (excludeSeen) {
+        const ownerHash = await getDeviceHash(request, env);
+        if (!ownerHash) return createErrorResponse(`${DEVICE_ID_HEADER} header is required for excludeSeen`, 400);
+        filter.exclude = await getSeenRanges(db, ownerHash, 'comic');
+      }
+
+      const comics = await db.getRandomComics(count ?? 1, createRandom(seed), filter, selectComicFields(full, fields));
+      if (count !== undefined) return createJsonResponse(convertIdToNum(comics));
+      if (comics.length === 0) return createErrorResponse('No comics found', 404);
+      return createJsonResponse(convertIdToNum(comics[0]));
     } catch (error) {
       console.error('Error in /xkcd-random:', error);
       return createErrorResponse('Failed to get random comic');
@@ -161,13 +264,10 @@ export function registerXkcdRoutes(router: RouterType) {
   });
 
   // GET /xkcd-suggest
-  router.get('/xkcd-suggest', withCache(async (request, env, ctx, { db }) => {
+  router.get('/xkcd-suggest', validateRequest(XKCD_SUGGEST_ROUTE), withCache(async (request, env, ctx, { db }) => {
     try {
-      const url = new URL(request.url);
-      const keyword = url.searchParams.get('q');
-      const size = parseInt(url.searchParams.get('size') || '20');
-      if (!keyword) return createErrorResponse('Missing required parameter: q', 400);
-      const results = await db.searchComics(keyword, size);
+      const { q: keyword, size, full, fields } = getInput(request);
+      const results = await db.searchComics(keyword, size, selectComicFields(full, fields));
       return createJsonResponse(convertIdToNum(results));
     } catch (error) {
       console.error('Error in /xkcd-suggest:', error);
@@ -176,8 +276,136 @@ export function registerXkcdRoutes(router: RouterType) {
   }, {
     ttl: 600,        // 10 minutes edge cache
     browserTtl: 120, // 2 minutes browser cache
-    notFoundTtl: 60  // 1 minute for 404
+    notFoundTtl: 60, // 1 minute for 404
+    normalizeKey: normalizeComicFieldsKey
   }));
-}
 
+  // GET /xkcd-search (full-text search with bm25 ranking and highlighted snippets)
+  // Supports "quoted phrases" and prefix* queries; pages with offset/size
+  router.get('/xkcd-search', validateRequest(XKCD_SEARCH_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { q: keyword, size, offset, full, fields } = getInput(request);
+      const query = buildFtsQuery(keyword);
+      if (!query) return createErrorResponse('Query has no searchable terms', 400);
+
+      const { comics, hasMore, total } = await db.searchComicsFullText(query, size, offset, selectComicFields(full, fields));
 
+      const response = createJsonResponse(convertIdToNum(comics));
+      response.headers.set('X-Pagination-Offset', offset.toString());
+      response.headers.set('X-Pagination-Size', size.toString());
+      response.headers.set('X-Pagination-Total', total.toString());
+      response.headers.set('X-Pagination-HasMore', hasMore ? '1' : '0');
+      if (hasMore) {
+        response.headers.set('X-Pagination-NextOffset', (offset + size).toString());
+      }
+      return response;
+    } catch (error) {
+      console.error('Error in /xkcd-search:', error);
+      return createErrorResponse('Failed to search comics');
+    }
+  }, {
+    ttl: 600,        // 10 minutes edge cache
+    browserTtl: 120, // 2 minutes browser cache
+    notFoundTtl: 60, // 1 minute for 404
+    normalizeKey: normalizeComicFieldsKey
+  }));
+
+  // GET /xkcd-on-this-day?date=MM-DD (defaults to today, UTC)
+  // Comics published on the same calendar day in past years
+  router.get('/xkcd-on-this-day', validateRequest(XKCD_ON_THIS_DAY_ROUTE), withDynamicCache(async (request, env, ctx, { db }) => {
+    try {
+      const now = new Date();
+      const { date } = getInput(request);
+      const month = date ? date.month : now.getUTCMonth() + 1;
+      const day = date ? date.day : now.getUTCDate();
+
+      const comics = await db.getComicsOnThisDay(month, day, now.getUTCFullYear());
+      return createJsonResponse(convertIdToNum(comics));
+    } catch (error) {
+      console.error('Error in /xkcd-on-this-day:', error);
+      return createErrorResponse('Failed to get comics on this day');
+    }
+  }, (request) => {
+    // "Today" changes at UTC midnight, and a past-years result set only changes when the year rolls over
+    const untilMidnight = secondsUntilUtcMidnight();
+    if (!getInput(request).date) {
+      return { ttl: untilMidnight, browserTtl: Math.min(3600, untilMidnight) };
+    }
+    return { ttl: 86400, browserTtl: 3600 };
+  }));
+
+  // GET /xkcd-daily (comic of the day, see src/daily/pick.ts)
+  router.get('/xkcd-daily', validateRequest(XKCD_DAILY_ROUTE), withDynamicCache(async (request, env, ctx, { db }) => {
+    try {
+      const day = formatDay(new Date());
+      const comicId = await getDailyComicId(db, env, day);
+      const comic = comicId === null ? null : await db.getComic(comicId);
+      if (!comic) return createErrorResponse('No comics found', 404);
+
+      const response = createJsonResponse(convertIdToNum(comic));
+      response.headers.set('X-Daily-Date', day);
+      return response;
+    } catch (error) {
+      console.error('Error in /xkcd-daily:', error);
+      return createErrorResponse('Failed to get comic of the day');
+    }
+  }, () => {
+    // The next comic of the day is picked at UTC midnight
+    const untilMidnight = secondsUntilUtcMidnight();
+    return { ttl: untilMidnight, browserTtl: untilMidnight };
+  }));
+
+  // GET /xkcd-calendar?year= (comic counts per year and month, for calendar archive browsers)
+  router.get('/xkcd-calendar', validateRequest(XKCD_CALENDAR_ROUTE), withDynamicCache(async (request, env, ctx, { db }) => {
+    try {
+      const { year } = getInput(request);
+      const rows = await db.getComicDateHistogram(year);
+      const years: { year: number; count: number; months: { month: number; count: number }[] }[] = [];
+      for (const row of rows) {
+        let entry = years[years.length - 1];
+        if (!entry || entry.year !== row.year) {
+          entry = { year: row.year, count: 0, months: [] };
+          years.push(entry);
+        }
+        entry.count += row.count;
+        entry.months.push({ month: row.month, count: row.count });
+      }
+      return createJsonResponse(years);
+    } catch (error) {
+      console.error('Error in /xkcd-calendar:', error);
+      return createErrorResponse('Failed to get comic calendar');
+    }
+  }, (request) => {
+    // Past years are frozen; anything including the current year changes with each new comic
+    const { year } = getInput(request);
+    if (year !== undefined && isDateFilterClosed({ year })) {
+      return { ttl: 86400 * 7, browserTtl: 86400 };
+    }
+    return { ttl: 3600, browserTtl: 300 };
+  }));
+
+  // GET /xkcd-batch?ids=1,2,3&locale= (many comics in one request, in the requested order)
+  router.get('/xkcd-batch', validateRequest(XKCD_BATCH_ROUTE), withCache(async (request, env, ctx, { db }) => {
+    try {
+      const { ids, locale } = getInput(request);
+      return await handleComicBatch(db, ids, locale);
+    } catch (error) {
+      console.error('Error in /xkcd-batch:', error);
+      return createErrorResponse('Failed to fetch comics batch');
+    }
+  }, {
+    ttl: 3600,      // 1 hour edge cache
+    browserTtl: 300 // 5 minutes browser cache
+  }));
+
+  // POST /xkcd-batch (form fields ids and locale, for lists too long for a URL)
+  router.post('/xkcd-batch', validateRequest(XKCD_BATCH_POST_ROUTE), async (request, env, ctx, { db }) => {
+    try {
+      const { ids, locale } = getInput(request);
+      return await handleComicBatch(db, ids, locale);
+    } catch (error) {
+      console.error('Error in POST /xkcd-batch:', error);
+      return createErrorResponse('Failed to fetch comics batch');
+    }
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Helpers for building SQLite FTS5 queries from user input
+ *
+ * User input is never passed to MATCH verbatim: FTS5 treats characters like
+ * `-`, `:`, `(` and `^` as syntax, so every term is re-quoted as a string.
+ * Supported syntax:
+ *   - bare words          -> all must match (implicit AND)
+ *   - "quoted phrases"    -> exact phrase match
+ *   - word*               -> prefix match
+ */
+
+import { SupportedLanguage } from '../types';
+
+// FTS5 rejects overly long expressions; cap the number of terms instead of truncating characters
+const MAX_TERMS = 16;
+
+// The trigram tokenizer only indexes runs of 3+ characters
+export const TRIGRAM_MIN_LENGTH = 3;
+
+export interface SearchTerm {
+  text: string;
+  prefix: boolean;
+}
+
+/**
+ * Locales whose FTS tables use the trigram tokenizer
+ * unicode61 treats a run of CJK characters without spaces as a single token, so it can't find words inside a sentence
+ */
+export function usesTrigramIndex(language: SupportedLanguage): boolean {
+  return language === 'zh-cn' || language === 'zh-tw';
+}
+
+function normalizeTerm(value: string): string {
+  // Punctuation inside a word splits it into adjacent tokens, e.g. don't -> "don t"
+  return value.replace(/[^\p{L}\p{N}]/gu, ' ').trim().replace(/\s+/g, ' ');
+}
+
+function quoteTerm(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Split user input into search terms
+ * @param options.prefixLastTerm - Treat the last bare word as a prefix (search-as-you-type)
+ */
+export function parseSearchTerms(input: string, options: { prefixLastTerm?: boolean } = {}): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null && terms.length < MAX_TERMS) {
+    if (match[1] !== undefined) {
+      // Quoted phrase (an unterminated quote runs to the end of the input)
+      const phrase = normalizeTerm(match[1]);
+      if (phrase) terms.push({ text: phrase, prefix: false });
+      continue;
+    }
+
+    const word = match[2];
+    const isPrefix = word.length > 1 && word.endsWith('*');
+    const cleaned = normalizeTerm(word);
+    if (!cleaned) continue;
+    terms.push({ text: cleaned, prefix: isPrefix });
+  }
+
+  if (options.prefixLastTerm && terms.length > 0 && !/"\s*$/.test(input)) {
+    terms[terms.length - 1].prefix = true;
+  }
+  return terms;
+}
+
+/**
+ * Join parsed terms into a MATCH expression
+ */
+export function termsToFtsQuery(terms: SearchTerm[]): string | null {
+  if (terms.length === 0) return null;
+  return terms.map(term => term.prefix ? `${quoteTerm(term.text)}*` : quoteTerm(term.text)).join(' ');
+}
+
+/**
+ * Convert a user query into a safe FTS5 MATCH expression
+ * @param options.prefixLastTerm - Treat the last bare word as a prefix (search-as-you-type)
+ * @returns The MATCH expression, or null if the query has no searchable terms
+ */
+export function buildFtsQuery(input: string, options: { prefixLastTerm?: boolean } = {}): string | null {
+  return termsToFtsQuery(parseSearchTerms(input, options));
+}
+
+/**
+ * Build a highlighted snippet around the first matching term
+ * Used where FTS5's snippet() is unavailable (LIKE fallback for short CJK terms)
+ */
+export function buildSnippet(text: string, terms: SearchTerm[], radius: number = 24): string {
+  const lower = text.toLowerCase();
+  let position = -1;
+  let length = 0;
+  for (const term of terms) {
+    const index = lower.indexOf(term.text.toLowerCase());
+    if (index !== -1 && (position === -1 || index < position)) {
+      position = index;
+      length = term.text.length;
+    }
+  }
+  if (position === -1) return text.slice(0, radius * 2);
+
+  const start = Math.max(0, position - radius);
+  const end = Math.min(text.length, position + length + radius);
+  return (start > 0 ? '…' : '')
+    + text.slice(start, position)
+    + '<mark>' + text.slice(position, position + length) + '</mark>'
+    + text.slice(position + length, end)
+    + (end < text.length ? '…' : '');
+}
@@ -0,0 +1,134 @@
+/**
+ * Related comics from a TF-IDF term index
+ *
+ * Each comic's title, alt text and transcript are reduced to weighted terms
+ * (comic_terms, unit length per comic) and its explicit references to other
+ * comics ("xkcd.com/1234") are stored in comic_links. Both are written when the
+ * crawler stores a comic. Similarity compares the comic's most distinctive terms,
+ * weighted by idf, with the terms of other comics; a cross-reference in either
+ * direction adds CROSS_REFERENCE_BOOST, so referenced comics rank first.
+ */
+
+import type { Database } from '../database';
+import { Comic, TermWeight } from '../types';
+
+// Terms kept per comic, and distinctive terms used to look up similar comics
+const MAX_TERMS_PER_COMIC = 64;
+const QUERY_TERMS = 24;
+
+// Title words describe a comic better than transcript words
+const FIELD_WEIGHTS = { title: 3, alt: 2, transcript: 1 };
+
+// Added to the similarity (at most 1) of comics linked to or from the comic
+export const CROSS_REFERENCE_BOOST = 1;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'him', 'his', 'how', 'its', 'may', 'new', 'now', 'old', 'see', 'two', 'way', 'who', 'did', 'get', 'got',
+  'let', 'say', 'she', 'too', 'use', 'why', 'yes', 'off', 'don', 'doe', 'didn', 'isn', 'that', 'this', 'with',
+  'have', 'from', 'they', 'them', 'then', 'than', 'will', 'would', 'could', 'should', 'there', 'their', 'what',
+  'about', 'which', 'when', 'where', 'here', 'make', 'like', 'just', 'over', 'such', 'into', 'some', 'other',
+  'these', 'those', 'only', 'also', 'been', 'being', 'were', 'your', 'more', 'most', 'very', 'even', 'each',
+  'because', 'really', 'well', 'yeah', 'okay', 'know', 'think', 'thing', 'going', 'gonna', 'want',
+  // Transcript boilerplate
+  'title', 'text', 'panel', 'man', 'woman', 'person'
+]);
+
+export interface RelatedComic {
+  id: number;
+  score: number;
+  crossReference: boolean;
+}
+
+// Crude plural folding so "graphs" matches "graph"
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Lowercased, stemmed words of 3+ letters without stop words
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z][a-z']*/g) || [])
+    .map(word => word.replace(/'s?$/, '').replace(/'/g, ''))
+    .filter(word => word.length >= 3 && !STOP_WORDS.has(word))
+    .map(stem)
+    .filter(word => !STOP_WORDS.has(word));
+}
+
+/**
+ * A comic's strongest terms, weighted by field and normalised to unit length
+ */
+export function extractTermWeights(comic: Pick<Comic, 'title' | 'alt' | 'transcript'>): TermWeight[] {
+  const counts = new Map<string, number>();
+  for (const [field, fieldWeight] of Object.entries(FIELD_WEIGHTS) as [keyof typeof FIELD_WEIGHTS, number][]) {
+    for (const term of tokenize(comic[field] || '')) {
+      counts.set(term, (counts.get(term) || 0) + fieldWeight);
+    }
+  }
+  const top = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_TERMS_PER_COMIC);
+  const norm = Math.sqrt(top.reduce((sum, [, count]) => sum + count * count, 0));
+  return top.map(([term, count]) => ({ term, weight: count / norm }));
+}
+
+/**
+ * Numbers of other comics a comic links to (xkcd.com/1234, "xkcd 1234")
+ */
+export function extractCrossReferences(comic: Pick<Comic, 'id' | 'alt' | 'transcript' | 'news' | 'link'>): number[] {
+  const text = [comic.alt, comic.transcript, comic.news, comic.link].filter(Boolean).join('\n');
+  const ids = new Set<number>();
+  for (const match of text.matchAll(/xkcd\.com\/(\d{1,5})\b|\bxkcd\s+#?(\d{1,5})\b/gi)) {
+    const id = parseInt(match[1] || match[2]);
+    if (id > 0 && id !== comic.id) ids.add(id);
+  }
+  return [...ids];
+}
+
+/**
+ * (Re)index a stored comic's terms and cross-references
+ */
+export async function indexComic(db: Database, comic: Pick<Comic, 'id' | 'title' | 'alt' | 'transcript' | 'news' | 'link'>): Promise<void> {
+  await db.replaceComicTerms(comic.id, extractTermWeights(comic), extractCrossReferences(comic));
+}
+
+/**
+ * Comics most similar to a comic, best first
+ */
+export async function getRelatedComics(db: Database, comicId: number, size: number): Promise<RelatedComic[]> {
+  const [terms, references] = await Promise.all([db.getComicTerms(comicId), db.getCrossReferences(comicId)]);
+  const scores = new Map<number, number>();
+
+  if (terms.length > 0) {
+    const { counts, total } = await db.getTermDocumentCounts(terms.map(({ term }) => term));
+    // Terms no other comic uses can't relate it to anything
+    const query = terms
+      .filter(({ term }) => (counts[term] || 0) > 1)
+      .map(({ term, weight }) => ({ term, weight: weight * Math.log(1 + total / counts[term]) }))
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, QUERY_TERMS);
+    const norm = Math.sqrt(query.reduce((sum, { weight }) => sum + weight * weight, 0));
+
+    if (query.length > 0) {
+      // Cosine of the normalised query and the other comic's unit term vector, at most 1
+      const queryWeights = new Map(query.map(({ term, weight }) => [term, weight / norm]));
+      for (const posting of await db.getTermPostings(query.map(({ term }) => term), comicId)) {
+        const score = queryWeights.get(posting.term)! * posting.weight;
+        scores.set(posting.comic_id, (scores.get(posting.comic_id) || 0) + score);
+      }
+    }
+  }
+
+  for (const id of references) {
+    scores.set(id, (scores.get(id) || 0) + CROSS_REFERENCE_BOOST);
+  }
+  const linked = new Set(references);
+
+  return [...scores.entries()]
+    .sort((a, b) => b[1] - a[1] || b[0] - a[0])
+    .slice(0, size)
+    .map(([id, score]) => ({ id, score: Math.round(score * 10000) / 10000, crossReference: linked.has(id) }));
+}
@@ -17,15 +17,50 @@ export interface Comic {
   updated_at?: string;
 }
 
+export interface ComicSearchResult extends Comic {
+  snippet: string; // Matched text with <mark> highlights
+  score: number; // bm25 score, lower is more relevant
+}
+
 export interface WhatIf {
   id: number;
   title: string;
   url: string;
   date?: string;
+  // Article content, only selected with ?full=1
+  question?: string;
+  asker?: string;
+  answer?: string; // sanitized HTML, footnote markers link to #fn-{num}
+  images?: WhatIfImage[];
+  footnotes?: WhatIfFootnote[];
   created_at?: string;
   updated_at?: string;
 }
 
+export interface WhatIfSearchResult extends WhatIf {
+  snippet: string; // Matched text with <mark> highlights
+  score: number; // bm25 score, lower is more relevant
+}
+
+// Inline illustration of a What If article
+export interface WhatIfImage {
+  src: string;
+  title: string;
+}
+
+// Catalogued image of a What If article (what_if_images)
+export interface WhatIfImageRecord extends WhatIfImage {
+  kind: 'thumbnail' | 'illustration';
+  width: number | null;
+  height: number | null;
+}
+
+// Footnote of a What If article; the answer links to it as #fn-{num}
+export interface WhatIfFootnote {
+  num: number;
+  html: string;
+}
+
 export interface LocalizedComic {
   id: number;
   title: string;
@@ -37,18 +72,95 @@ export interface LocalizedComic {
   updated_at?: string;
 }
 
+export interface LocalizedComicSearchResult extends LocalizedComic {
+  original_title?: string; // Title of the English comic with the same num
+  snippet: string; // Matched text with <mark> highlights
+}
+
 // Supported languages
 export type SupportedLanguage = 'zh-cn' | 'zh-tw' | 'es' | 'fr' | 'de' | 'ru';
 
+// Language a like was given in; '' = the original (English) comic and What If
+export type LikeLocale = SupportedLanguage | '';
+
 export interface LikeCount {
   id: number;
   comic_id: number;
   comic_type: 'comic' | 'what_if';
+  locale: LikeLocale;
   count: number;
   created_at?: string;
   updated_at?: string;
 }
 
+export interface LikeEvent {
+  client_hash: string;
+  comic_id: number;
+  comic_type: 'comic' | 'what_if';
+  locale: LikeLocale;
+  created_at?: string;
+}
+
+// Likes still held per item and UTC day (YYYY-MM-DD)
+export interface LikeDaily {
+  comic_id: number;
+  comic_type: 'comic' | 'what_if';
+  locale: LikeLocale;
+  day: string;
+  count: number;
+}
+
+// Time-decayed like activity, refreshed by the scheduled rollup
+export interface LikeTrending {
+  comic_id: number;
+  comic_type: 'comic' | 'what_if';
+  locale: LikeLocale;
+  score: number;
+  updated_at?: string;
+}
+
+// Like count in one locale and over all locales of the same num
+export interface LikeTotals {
+  thumbCount: number;
+  totalThumbCount: number;
+}
+
+// Result of a like/unlike; changed is false when the client had already (un)liked the item
+export interface LikeResult {
+  count: number;
+  changed: boolean;
+}
+
+// A client liking (liked = true) or withdrawing its like of an item at `time` (ms)
+export interface LikeChange {
+  clientHash: string;
+  liked: boolean;
+  time: number;
+}
+
+// One favorite of an owner; removed favorites are kept as tombstones (deleted = 1) for sync
+export interface Favorite {
+  owner_hash: string;
+  comic_id: number;
+  comic_type: 'comic' | 'what_if';
+  deleted: number;
+  // Client edit time in ms; the newer edit wins
+  updated_at: number;
+  // Per-owner change counter, see Database.getFavoriteChanges
+  version: number;
+}
+
+// Ids a client has seen of one item type, see src/progress/ranges.ts
+export interface ReadProgress {
+  owner_hash: string;
+  comic_type: 'comic' | 'what_if';
+  // JSON array of merged [first, last] id ranges
+  ranges: string;
+  // Incremented on every save (optimistic concurrency)
+  version: number;
+  updated_at?: string;
+}
+
 export interface CrawlTask {
   id: number;
   task_type: 'xkcd' | 'what_if' | 'localized';
@@ -61,12 +173,88 @@ export interface CrawlTask {
   created_at?: string;
 }
 
-// API 响应类型
+// API 响应类型（v2 统一信封：{ data, meta, error }）
+export interface ApiError {
+  code: string; // bad_request, validation_error, not_found, internal_error, unavailable
+  message: string;
+  details?: FieldError[]; // Per-parameter problems for validation_error
+}
+
+export type ParamLocation = 'path' | 'query' | 'form';
+
+export interface FieldError {
+  in: ParamLocation;
+  name: string;
+  message: string;
+}
+
+export interface PaginationMeta {
+  size: number;
+  hasMore: boolean;
+  next?: string | null; // Cursor pagination
+  prev?: string | null;
+  offset?: number; // Offset pagination (search)
+  total?: number;
+}
+
+export interface ApiMeta {
+  pagination?: PaginationMeta;
+  [key: string]: unknown;
+}
+
 export interface ApiResponse<T = any> {
-  success: boolean;
-  data?: T;
-  error?: string;
-  message?: string;
+  data: T | null;
+  meta: ApiMeta;
+  error: ApiError | null;
+}
+
+// v2 DTO
+export interface ComicDto {
+  num: number;
+  title: string;
+  alt: string;
+  img: string;
+  width: number | null;
+  height: number | null;
+  date: string | null; // YYYY-MM-DD
+  // Only present with ?full=1
+  safeTitle?: string;
+  transcript?: string;
+  link?: string;
+  news?: string;
+  updatedAt?: string;
+  // Only present when a locale overlay was requested
+  translated?: boolean;
+}
+
+export interface ComicSearchResultDto extends ComicDto {
+  snippet: string;
+  score: number;
+}
+
+export interface WhatIfDto {
+  num: number;
+  title: string;
+  url: string;
+  date: string | null;
+  // Only with ?full=1
+  question?: string;
+  asker?: string;
+  answer?: string;
+  images?: WhatIfImage[];
+  footnotes?: WhatIfFootnote[];
+}
+
+export interface LocalizedComicDto {
+  num: number;
+  locale: SupportedLanguage;
+  title: string;
+  alt: string;
+  img: string;
+  sourceUrl: string | null;
+  // Only present in search results
+  originalTitle?: string | null;
+  snippet?: string;
 }
 
 // 分页参数
@@ -76,6 +264,33 @@ export interface PaginationParams {
   reversed?: boolean;
 }
 
+// 日期筛选参数
+export interface ComicDateFilter {
+  year: number;
+  month?: number;
+  day?: number;
+}
+
+// Inclusive [first, last] id range
+export type IdRange = [number, number];
+
+// Constraints of a random pick, see Database.getRandomComics
+export interface RandomFilter {
+  from?: number;
+  to?: number;
+  dateFilter?: ComicDateFilter;
+  // Only comics translated into this language
+  language?: SupportedLanguage;
+  // Ids to skip, e.g. the comics a client has seen
+  exclude?: IdRange[];
+}
+
+// A comic's term in the related comics index, see src/search/related.ts
+export interface TermWeight {
+  term: string;
+  weight: number;
+}
+
 // 搜索参数
 export interface SearchParams {
   q: string;
@@ -0,0 +1,130 @@
+/**
+ * Allowlist HTML sanitizer for crawled article bodies
+ *
+ * Crawled markup is served to app WebViews, so only formatting tags and a few
+ * attributes survive: scripts, styles, frames and event handlers are dropped,
+ * and links and images must point to http(s) URLs (relative ones are resolved).
+ */
+
+// Tags kept as-is (attributes filtered by ALLOWED_ATTRIBUTES)
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'a', 'em', 'strong', 'i', 'b', 'u', 's', 'sup', 'sub', 'span', 'small',
+  'ul', 'ol', 'li', 'blockquote', 'pre', 'code', 'h2', 'h3', 'h4', 'img',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td'
+]);
+
+// Tags removed together with their content
+const DROPPED_TAGS = new Set(['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'form', 'template', 'svg', 'math']);
+
+const VOID_TAGS = new Set(['br', 'hr', 'img']);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title', 'id'],
+  img: ['src', 'title', 'alt', 'class'],
+  sup: ['class', 'id'],
+  span: ['class'],
+  p: ['class'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan']
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“',
+  times: '×', deg: '°', middot: '·', eacute: 'é'
+};
+
+/**
+ * Decode HTML entities in text (named entities above, decimal and hex references)
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+}
+
+/**
+ * Plain text of an HTML fragment, whitespace collapsed
+ */
+export function htmlToText(html: string): string {
+  return decodeHtmlEntities(html.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Absolute http(s) URL, or null for other schemes (javascript:, data:, ...)
+ * Fragment links (#fn-1) are kept as they are
+ */
+function resolveUrl(value: string, baseUrl: string): string | null {
+  const trimmed = decodeHtmlEntities(value).trim();
+  if (trimmed.startsWith('#')) return trimmed;
+  try {
+    const url = new URL(trimmed, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function sanitizeTag(tag: string, name: string, closing: boolean, baseUrl: string): string {
+  if (closing) return VOID_TAGS.has(name) ? '' : `</${name}>`;
+
+  const attributes: string[] = [];
+  const allowed = ALLOWED_ATTRIBUTES[name] || [];
+  for (const match of tag.matchAll(/([a-zA-Z_:][-a-zA-Z0-9_:.]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    const attribute = match[1].toLowerCase();
+    if (!allowed.includes(attribute)) continue;
+    let value: string | null = match[2] ?? match[3] ?? match[4] ?? '';
+    if (URL_ATTRIBUTES.has(attribute)) {
+      value = resolveUrl(value, baseUrl);
+      if (value === null) continue;
+    } else {
+      value = decodeHtmlEntities(value);
+    }
+    attributes.push(` ${attribute}="${escapeHtml(value)}"`);
+  }
+  // An image without a safe source shows nothing
+  if (name === 'img' && !attributes.some(attribute => attribute.startsWith(' src='))) return '';
+  return `<${name}${attributes.join('')}>`;
+}
+
+/**
+ * Sanitize an HTML fragment against the allowlist
+ * @param baseUrl - URL the fragment was crawled from, to resolve relative links and images
+ */
+export function sanitizeHtml(html: string, baseUrl: string): string {
+  const output: string[] = [];
+  let dropping: string | null = null;
+  let lastIndex = 0;
+
+  for (const match of html.matchAll(/<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b[^>]*>/g)) {
+    const text = html.slice(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+    if (!dropping) output.push(text.replace(/</g, '&lt;').replace(/>/g, '&gt;'));
+    if (!match[2]) continue; // comment
+
+    const name = match[2].toLowerCase();
+    const closing = match[1] === '/';
+    if (dropping) {
+      if (closing && name === dropping) dropping = null;
+      continue;
+    }
+    if (DROPPED_TAGS.has(name)) {
+      if (!closing && !match[0].endsWith('/>')) dropping = name;
+      continue;
+    }
+    if (ALLOWED_TAGS.has(name)) output.push(sanitizeTag(match[0], name, closing, baseUrl));
+  }
+  if (!dropping) output.push(html.slice(lastIndex).replace(/</g, '&lt;').replace(/>/g, '&gt;'));
+
+  return output.join('');
+}
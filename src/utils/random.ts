@@ -0,0 +1,28 @@
+/**
+ * Seedable random numbers for reproducible picks
+ */
+
+/**
+ * Random number source in [0, 1)
+ * With a seed the sequence is reproducible (mulberry32); without one Math.random is used
+ */
+export function createRandom(seed?: string): () => number {
+  if (seed === undefined) return Math.random;
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 32-bit FNV-1a hash of the seed
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,31 @@
+import { describe, test, expect } from 'vitest';
+import { getClientHash, getDeviceHash } from '../../src/http/client';
+
+const request = (headers: Record<string, string>) => new Request('https://example.com/xkcd-thumb-up', { method: 'POST', headers });
+
+describe('Client identity', () => {
+    test('should hash the device id when present and fall back to the IP', async () => {
+        const device = await getClientHash(request({ 'X-Device-Id': 'device-1234', 'CF-Connecting-IP': '1.2.3.4' }), {});
+        const sameDevice = await getClientHash(request({ 'X-Device-Id': 'device-1234', 'CF-Connecting-IP': '5.6.7.8' }), {});
+        const ip = await getClientHash(request({ 'CF-Connecting-IP': '1.2.3.4' }), {});
+
+        expect(device).toMatch(/^[0-9a-f]{32}$/);
+        expect(sameDevice).toBe(device);
+        expect(ip).not.toBe(device);
+        // Malformed device ids are ignored
+        expect(await getClientHash(request({ 'X-Device-Id': 'no spaces!', 'CF-Connecting-IP': '1.2.3.4' }), {})).toBe(ip);
+    });
+
+    test('should depend on the configured salt', async () => {
+        const headers = { 'X-Device-Id': 'device-1234' };
+        expect(await getClientHash(request(headers), { CLIENT_ID_SALT: 'a' }))
+            .not.toBe(await getClientHash(request(headers), { CLIENT_ID_SALT: 'b' }));
+    });
+
+    test('should only identify devices for device-bound state', async () => {
+        expect(await getDeviceHash(request({ 'X-Device-Id': 'device-1234' }), {}))
+            .toBe(await getClientHash(request({ 'X-Device-Id': 'device-1234', 'CF-Connecting-IP': '1.2.3.4' }), {}));
+        expect(await getDeviceHash(request({ 'CF-Connecting-IP': '1.2.3.4' }), {})).toBeNull();
+        expect(await getDeviceHash(request({ 'X-Device-Id': 'short' }), {})).toBeNull();
+    });
+});
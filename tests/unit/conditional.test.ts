@@ -0,0 +1,75 @@
+import { describe, test, expect } from 'vitest';
+import { addValidators, computeEtag, createNotModifiedResponse, findNewestUpdatedAt, isNotModified } from '../../src/http/conditional';
+
+const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value)).buffer as ArrayBuffer;
+
+describe('Conditional GET', () => {
+    test('should hash identical bodies to the same strong ETag', async () => {
+        const etag = await computeEtag(encode([{ num: 1 }]));
+        expect(etag).toMatch(/^"[0-9a-f]{32}"$/);
+        expect(await computeEtag(encode([{ num: 1 }]))).toBe(etag);
+        expect(await computeEtag(encode([{ num: 2 }]))).not.toBe(etag);
+    });
+
+    test('should change the ETag when pagination headers change', async () => {
+        const body = encode([{ num: 1 }]);
+        const lastPage = await computeEtag(body, new Headers({ 'X-Pagination-HasMore': '0' }));
+        expect(await computeEtag(body, new Headers({ 'X-Pagination-HasMore': '0', 'Content-Type': 'application/json' }))).toBe(lastPage);
+        expect(await computeEtag(body, new Headers({ 'X-Pagination-HasMore': '1', 'Link': '<https://x/?cursor=a>; rel="next"' }))).not.toBe(lastPage);
+    });
+
+    test('should leave Last-Modified off list pages', async () => {
+        const paged = new Headers({ 'Content-Type': 'application/json', 'X-Pagination-HasMore': '0' });
+        await addValidators(encode([{ updated_at: '2024-03-01 00:00:00' }]), paged);
+        expect(paged.get('ETag')).toBeTruthy();
+        expect(paged.get('Last-Modified')).toBeNull();
+
+        const envelope = new Headers({ 'Content-Type': 'application/json' });
+        await addValidators(encode({ data: [{ updatedAt: '2024-03-01 00:00:00' }], meta: { pagination: { hasMore: false } } }), envelope);
+        expect(envelope.get('Last-Modified')).toBeNull();
+    });
+
+    test('should find the newest updated_at in nested payloads', () => {
+        const payload = { items: [{ updated_at: '2024-01-02 03:04:05' }, { updated_at: '2024-03-01 00:00:00' }, { updated_at: 'garbage' }] };
+        expect(findNewestUpdatedAt(payload)).toBe('2024-03-01 00:00:00');
+        expect(findNewestUpdatedAt([{ num: 1 }])).toBeNull();
+    });
+
+    test('should set ETag and Last-Modified without overriding handler values', async () => {
+        const headers = new Headers({ 'Content-Type': 'application/json' });
+        await addValidators(encode({ updated_at: '2024-03-01 00:00:00' }), headers);
+        expect(headers.get('ETag')).toBeTruthy();
+        expect(headers.get('Last-Modified')).toBe('Fri, 01 Mar 2024 00:00:00 GMT');
+
+        const preset = new Headers({ 'Content-Type': 'application/json', 'Last-Modified': 'Mon, 01 Jan 2024 00:00:00 GMT' });
+        await addValidators(encode({ updated_at: '2024-03-01 00:00:00' }), preset);
+        expect(preset.get('Last-Modified')).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+    });
+
+    test('should match If-None-Match lists and weak tags, with precedence over If-Modified-Since', () => {
+        const headers = new Headers({ ETag: '"abc"', 'Last-Modified': 'Fri, 01 Mar 2024 00:00:00 GMT' });
+        const request = (init: Record<string, string>) => new Request('https://x/xkcd-list', { headers: init });
+
+        expect(isNotModified(request({ 'If-None-Match': '"zzz", W/"abc"' }), headers)).toBe(true);
+        expect(isNotModified(request({ 'If-None-Match': '*' }), headers)).toBe(true);
+        expect(isNotModified(request({ 'If-None-Match': '"zzz"', 'If-Modified-Since': 'Sat, 02 Mar 2024 00:00:00 GMT' }), headers)).toBe(false);
+        expect(isNotModified(request({ 'If-Modified-Since': 'Fri, 01 Mar 2024 00:00:00 GMT' }), headers)).toBe(true);
+        expect(isNotModified(request({ 'If-Modified-Since': 'Thu, 29 Feb 2024 00:00:00 GMT' }), headers)).toBe(false);
+        expect(isNotModified(request({}), headers)).toBe(false);
+    });
+
+    test('should build a bodiless 304 that keeps validators and CORS headers', async () => {
+        const response = createNotModifiedResponse(new Headers({
+            ETag: '"abc"',
+            'Cache-Control': 'public, max-age=60',
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+            'X-Pagination-Size': '10'
+        }));
+        expect(response.status).toBe(304);
+        expect(response.headers.get('ETag')).toBe('"abc"');
+        expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+        expect(response.headers.get('Content-Type')).toBeNull();
+        expect(await response.text()).toBe('');
+    });
+});
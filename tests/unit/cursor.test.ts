@@ -0,0 +1,54 @@
+import { describe, test, expect } from 'vitest';
+import { encodeCursor, decodeCursor, buildPageCursors, buildLinkHeader, getCursorSecret, resolveCursorPage } from '../../src/http/cursor';
+
+const SECRET = 'test-secret';
+
+describe('Pagination cursors', () => {
+    test('should round-trip a cursor', async () => {
+        const cursor = { scope: 'xkcd', order: 'desc' as const, direction: 'next' as const, id: 2500, size: 50 };
+        const token = await encodeCursor(cursor, SECRET);
+        expect(await decodeCursor(token, SECRET, 'xkcd')).toEqual(cursor);
+    });
+
+    test('should reject tampered, foreign-scope and wrongly signed cursors', async () => {
+        const token = await encodeCursor({ scope: 'xkcd', order: 'asc', direction: 'next', id: 10, size: 10 }, SECRET);
+        const [body, signature] = token.split('.');
+        const forged = btoa(JSON.stringify({ s: 'xkcd', o: 'asc', d: 'next', i: 11, n: 10 })).replace(/=+$/, '');
+
+        expect(await decodeCursor(`${forged}.${signature}`, SECRET, 'xkcd')).toBeNull();
+        expect(await decodeCursor(token, SECRET, 'what-if')).toBeNull();
+        expect(await decodeCursor(token, 'other-secret', 'xkcd')).toBeNull();
+        expect(await decodeCursor(body, SECRET, 'xkcd')).toBeNull();
+        expect(await decodeCursor('garbage', SECRET, 'xkcd')).toBeNull();
+        expect(await decodeCursor(`${body}.${signature.slice(0, 22)}`, SECRET, 'xkcd')).toBeNull();
+    });
+
+    test('should start at the first page for an empty token', async () => {
+        const firstPage = { order: 'asc' as const, direction: 'next' as const, anchorId: null, size: 20 };
+        expect(await resolveCursorPage('', 'xkcd', SECRET, firstPage)).toEqual(firstPage);
+    });
+
+    test('should anchor next/prev cursors on the page edges', async () => {
+        const rows = [{ id: 5 }, { id: 6 }, { id: 7 }];
+        const cursors = await buildPageCursors(rows, { scope: 'xkcd', order: 'asc', size: 3, hasNext: true, hasPrev: true }, SECRET);
+
+        expect(await decodeCursor(cursors.next!, SECRET, 'xkcd')).toMatchObject({ direction: 'next', id: 7 });
+        expect(await decodeCursor(cursors.prev!, SECRET, 'xkcd')).toMatchObject({ direction: 'prev', id: 5 });
+    });
+
+    test('should omit cursors at the list boundaries', async () => {
+        const cursors = await buildPageCursors([{ id: 1 }], { scope: 'xkcd', order: 'asc', size: 10, hasNext: false, hasPrev: false }, SECRET);
+        expect(cursors).toEqual({ next: null, prev: null });
+        expect(buildLinkHeader('https://example.com/xkcd-list', cursors)).toBeNull();
+    });
+
+    test('should build a Link header without legacy paging parameters', () => {
+        const link = buildLinkHeader('https://example.com/xkcd/xkcd-list?start=10&reversed=1&size=5', { next: 'abc.def', prev: null });
+        expect(link).toBe('<https://example.com/xkcd/xkcd-list?size=5&cursor=abc.def>; rel="next"');
+    });
+
+    test('should only sign with CURSOR_SECRET', () => {
+        expect(getCursorSecret({ CURSOR_SECRET: SECRET })).toBe(SECRET);
+        expect(getCursorSecret({})).toBeNull();
+    });
+});
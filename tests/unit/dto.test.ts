@@ -0,0 +1,36 @@
+import { describe, test, expect } from 'vitest';
+import { toComicDto, toLocalizedComicDto, toWhatIfDto } from '../../src/http/dto';
+import { createEnvelopeError, createEnvelopeResponse } from '../../src/http/response';
+
+describe('v2 DTOs and envelope', () => {
+    test('should map a default comic row to the compact DTO', () => {
+        const dto = toComicDto({ id: 1234, title: 'Title', alt: 'Alt', img: 'img.png', year: 2013, month: 7, day: 5, width: 740, height: 300 });
+        expect(dto).toEqual({ num: 1234, title: 'Title', alt: 'Alt', img: 'img.png', width: 740, height: 300, date: '2013-07-05' });
+    });
+
+    test('should include extended fields only when they were selected', () => {
+        const dto = toComicDto({ id: 1, title: 'T', img: 'i', transcript: 'text', safe_title: 'T', updated_at: '2024-01-01 00:00:00' });
+        expect(dto).toMatchObject({ num: 1, alt: '', date: null, transcript: 'text', safeTitle: 'T', updatedAt: '2024-01-01 00:00:00' });
+        expect('news' in dto).toBe(false);
+    });
+
+    test('should include What If content only when it was selected', () => {
+        expect(toWhatIfDto({ id: 3, title: 'Q', url: 'u', date: '' })).toEqual({ num: 3, title: 'Q', url: 'u', date: null });
+        expect(toWhatIfDto({ id: 3, title: 'Q', url: 'u', question: 'Why?', asker: 'Ann', answer: '<p>Because</p>', images: [], footnotes: [] }))
+            .toMatchObject({ num: 3, question: 'Why?', asker: 'Ann', answer: '<p>Because</p>', images: [], footnotes: [] });
+    });
+
+    test('should map localized rows with their locale', () => {
+        expect(toLocalizedComicDto({ id: 2, title: 'Bande', img: 'i', source_url: 'https://example.com/2' }, 'fr'))
+            .toEqual({ num: 2, locale: 'fr', title: 'Bande', alt: '', img: 'i', sourceUrl: 'https://example.com/2' });
+    });
+
+    test('should wrap data and errors in the same envelope', async () => {
+        expect(await createEnvelopeResponse([1], { pagination: { size: 1, hasMore: false } }).json())
+            .toEqual({ data: [1], meta: { pagination: { size: 1, hasMore: false } }, error: null });
+
+        const error = createEnvelopeError('Comic not found', 404);
+        expect(error.status).toBe(404);
+        expect(await error.json()).toEqual({ data: null, meta: {}, error: { code: 'not_found', message: 'Comic not found' } });
+    });
+});
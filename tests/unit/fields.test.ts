@@ -0,0 +1,28 @@
+import { describe, test, expect } from 'vitest';
+import { parseComicFields, normalizeComicFieldsKey, COMIC_FIELDS } from '../../src/http/fields';
+
+describe('Comic field selection', () => {
+    test('should use the default field set when nothing is requested', () => {
+        expect(parseComicFields(new URL('https://x/1/info.0.json'))).toEqual({});
+    });
+
+    test('should map num to id, always include id and keep canonical order', () => {
+        const { fields } = parseComicFields(new URL('https://x/1/info.0.json?fields=transcript, title,num'));
+        expect(fields).toEqual(['id', 'title', 'transcript']);
+    });
+
+    test('should select every column with full=1', () => {
+        expect(parseComicFields(new URL('https://x/1/info.0.json?full=1')).fields).toEqual([...COMIC_FIELDS]);
+    });
+
+    test('should reject unknown fields', () => {
+        expect(parseComicFields(new URL('https://x/1/info.0.json?fields=title,password')).error).toMatch(/Unknown field: password/);
+    });
+
+    test('should give equivalent selections the same cache key', () => {
+        const a = normalizeComicFieldsKey(new URL('https://x/xkcd-list?size=10&fields=alt,title'));
+        const b = normalizeComicFieldsKey(new URL('https://x/xkcd-list?size=10&fields=num,title,alt'));
+        expect(a.toString()).toBe(b.toString());
+        expect(normalizeComicFieldsKey(new URL('https://x/xkcd-list?full=1')).searchParams.get('full')).toBeNull();
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, test, expect } from 'vitest';
+import { buildFtsQuery, buildSnippet } from '../../src/search/fts';
+
+describe('buildFtsQuery', () => {
+    test('should quote bare words so they match as plain terms', () => {
+        expect(buildFtsQuery('bobby tables')).toBe('"bobby" "tables"');
+    });
+
+    test('should keep quoted phrases together', () => {
+        expect(buildFtsQuery('"little bobby" tables')).toBe('"little bobby" "tables"');
+    });
+
+    test('should support prefix queries', () => {
+        expect(buildFtsQuery('physic*')).toBe('"physic"*');
+    });
+
+    test('should neutralise FTS5 operators and punctuation', () => {
+        expect(buildFtsQuery('NOT title:foo (bar) -baz')).toBe('"NOT" "title foo" "bar" "baz"');
+        expect(buildFtsQuery("don't")).toBe('"don t"');
+    });
+
+    test('should return null when nothing is searchable', () => {
+        expect(buildFtsQuery('  ')).toBeNull();
+        expect(buildFtsQuery('?! ""')).toBeNull();
+    });
+
+    test('should not truncate long queries', () => {
+        const query = buildFtsQuery('a very long query that goes well past the old forty nine character limit');
+        expect(query).toContain('"limit"');
+    });
+
+    test('should prefix the last term for search-as-you-type', () => {
+        expect(buildFtsQuery('python ant', { prefixLastTerm: true })).toBe('"python" "ant"*');
+        expect(buildFtsQuery('"python ant"', { prefixLastTerm: true })).toBe('"python ant"');
+    });
+});
+
+describe('buildSnippet', () => {
+    test('should highlight the earliest matching term', () => {
+        const text = '是對你的非魔法的投石機的正常物理預測';
+        expect(buildSnippet(text, [{ text: '物理', prefix: false }], 4)).toBe('…機的正常<mark>物理</mark>預測');
+    });
+
+    test('should fall back to the start of the text when nothing matches', () => {
+        expect(buildSnippet('物理 vs 魔法', [{ text: '投石', prefix: false }])).toBe('物理 vs 魔法');
+    });
+});
@@ -0,0 +1,107 @@
+import { describe, test, expect, vi, afterEach } from 'vitest';
+import { inlineImages, renderOfflineIndex, renderOfflineWhatIf } from '../../src/offline/whatif';
+import { createZipStream, crc32, ZipEntry } from '../../src/offline/zip';
+import { WhatIf } from '../../src/types';
+
+const WHAT_IF: WhatIf = {
+    id: 157,
+    title: 'Electrofishing <for> Whales',
+    url: 'https://what-if.xkcd.com/157/',
+    date: 'November 6, 2017',
+    question: 'Could you electrofish a whale?',
+    asker: 'Kenny',
+    answer: '<p>Probably not.<sup class="ref" id="ref-1"><a href="#fn-1">[1]</a></sup> {{TITLE}} $&</p>'
+        + '<img src="https://what-if.xkcd.com/imgs/a/157/whale.png?a=1&amp;b=2" title="Whale"><img src="https://what-if.xkcd.com/imgs/a/157/boat.png">',
+    images: [
+        { src: 'https://what-if.xkcd.com/imgs/a/157/whale.png?a=1&b=2', title: 'Whale' },
+        { src: 'https://what-if.xkcd.com/imgs/a/157/boat.png', title: '' }
+    ],
+    footnotes: [{ num: 1, html: 'It would be <em>very</em> angry.' }]
+};
+
+async function readZip(entries: ZipEntry[]): Promise<Record<string, string>> {
+    const bytes = new Uint8Array(await new Response(createZipStream((async function* () { yield* entries; })())).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+    const files: Record<string, string> = {};
+    let position = view.getUint32(end + 16, true);
+    for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+        expect(view.getUint32(position, true)).toBe(0x02014b50);
+        const crc = view.getUint32(position + 16, true);
+        const compressedSize = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const name = new TextDecoder().decode(bytes.subarray(position + 46, position + 46 + nameLength));
+        const local = view.getUint32(position + 42, true);
+        const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+        const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+        const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+        const data = new Uint8Array(await new Response(stream).arrayBuffer());
+        expect(crc32(data)).toBe(crc);
+        files[name] = new TextDecoder().decode(data);
+        position += 46 + nameLength;
+    }
+    return files;
+}
+
+describe('Offline What If documents', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    test('should render footnotes as endnotes linked both ways', () => {
+        const html = renderOfflineWhatIf(WHAT_IF);
+        expect(html).toContain('<title>What If #157: Electrofishing &lt;for&gt; Whales</title>');
+        expect(html).toContain('<cite>—Kenny</cite>');
+        expect(html).toContain('<a href="#fn-1">[1]</a>');
+        expect(html).toContain('<li id="fn-1" value="1">It would be <em>very</em> angry. <a class="back" href="#ref-1"');
+        // Placeholder-like text in the content is kept as it is
+        expect(html).toContain('{{TITLE}} $&</p>');
+    });
+
+    test('should inline fetched images and size them from the catalog', () => {
+        const inlined = new Map([[WHAT_IF.images![0].src, 'data:image/png;base64,AAAA']]);
+        const catalog = [
+            { kind: 'illustration' as const, src: WHAT_IF.images![0].src, title: 'Whale', width: 600, height: 400 },
+            { kind: 'illustration' as const, src: WHAT_IF.images![1].src, title: '', width: null, height: null }
+        ];
+        const html = renderOfflineWhatIf(WHAT_IF, inlined, catalog);
+        expect(html).toContain('<img src="data:image/png;base64,AAAA" width="600" height="400" title="Whale">');
+        // Images that couldn't be fetched stay remote
+        expect(html).toContain('<img src="https://what-if.xkcd.com/imgs/a/157/boat.png">');
+    });
+
+    test('should stop fetching images when the shared budget runs out', async () => {
+        const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async () =>
+            new Response(new Uint8Array([1, 2, 3]), { headers: { 'Content-Type': 'image/png' } }));
+        const budget = { remaining: 3 };
+        const first = await inlineImages(['https://x.test/a.png', 'https://x.test/b.png', 'https://x.test/a.png'], budget);
+        const second = await inlineImages(['https://x.test/c.png', 'https://x.test/d.png'], budget);
+        expect([...first.keys()]).toEqual(['https://x.test/a.png', 'https://x.test/b.png']);
+        expect(first.get('https://x.test/a.png')).toBe('data:image/png;base64,AQID');
+        // Images beyond the budget keep their remote URL
+        expect([...second.keys()]).toEqual(['https://x.test/c.png']);
+        expect(budget.remaining).toBe(0);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    test('should link every article from the index', () => {
+        expect(renderOfflineIndex([WHAT_IF])).toContain('<a href="what-if-157.html">#157: Electrofishing &lt;for&gt; Whales</a>');
+    });
+});
+
+describe('ZIP writer', () => {
+    test('should compute CRC-32', () => {
+        expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    });
+
+    test('should write entries that round-trip', async () => {
+        const files = await readZip([
+            { name: 'index.html', data: new TextEncoder().encode('<h1>What If</h1>') },
+            { name: 'what-if-1.html', data: new TextEncoder().encode('x'.repeat(10000)) },
+            { name: 'empty.txt', data: new Uint8Array(0) }
+        ]);
+        expect(files).toEqual({ 'index.html': '<h1>What If</h1>', 'what-if-1.html': 'x'.repeat(10000), 'empty.txt': '' });
+    });
+});
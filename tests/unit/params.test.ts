@@ -0,0 +1,125 @@
+import { describe, test, expect } from 'vitest';
+import { parseRequest, RouteSchema } from '../../src/http/schema';
+import * as routes from '../../src/routes/schemas';
+
+interface ParamCase {
+    name: string;
+    route: RouteSchema;
+    path?: Record<string, string>;
+    query?: string;
+    form?: Record<string, string>;
+    values?: Record<string, unknown>;
+    errors?: string[];
+}
+
+const manyIds = Array.from({ length: 501 }, (_, i) => i + 1).join(',');
+
+const cases: ParamCase[] = [
+    // XKCD
+    { name: 'xkcd-list defaults', route: routes.XKCD_LIST_ROUTE, values: { start: 0, size: 100, reversed: false, cursor: undefined, full: false } },
+    { name: 'xkcd-list typed values', route: routes.XKCD_LIST_ROUTE, query: '?start=10&size=500&reversed=1&cursor=&year=2010&month=2&fields=title,num', values: { start: 10, size: 500, reversed: true, cursor: '', year: 2010, month: 2, fields: ['id', 'title'] } },
+    { name: 'xkcd-list size over the limit', route: routes.XKCD_LIST_ROUTE, query: '?size=100000', errors: ['size'] },
+    { name: 'xkcd-list malformed values', route: routes.XKCD_LIST_ROUTE, query: '?start=-1&size=1e3&reversed=true&fields=password', errors: ['start', 'size', 'reversed', 'fields'] },
+    { name: 'xkcd-list date dependencies', route: routes.XKCD_LIST_ROUTE, query: '?month=2&day=30', errors: ['month'] },
+    { name: 'xkcd-list date ranges', route: routes.XKCD_LIST_ROUTE, query: '?year=0&month=13&day=32', errors: ['year', 'month', 'day'] },
+    { name: 'info.0.json locale', route: routes.XKCD_INFO_ROUTE, path: { comicId: '12' }, query: '?locale=ZH_TW', values: { comicId: 12, locale: 'zh-tw' } },
+    { name: 'info.0.json unknown locale falls back', route: routes.XKCD_INFO_ROUTE, path: { comicId: '12' }, query: '?locale=xx', values: { locale: 'zh-cn' } },
+    { name: 'info.0.json empty locale falls back', route: routes.XKCD_INFO_ROUTE, path: { comicId: '12' }, query: '?locale=', values: { locale: 'zh-cn' } },
+    { name: 'info.0.json bad id', route: routes.XKCD_INFO_ROUTE, path: { comicId: '0' }, query: '?full=yes', errors: ['comicId', 'full'] },
+    { name: 'related', route: routes.XKCD_RELATED_ROUTE, path: { comicId: '927' }, values: { comicId: 927, size: 10 } },
+    { name: 'related limits', route: routes.XKCD_RELATED_ROUTE, path: { comicId: 'x' }, query: '?size=51', errors: ['comicId', 'size'] },
+    { name: 'xkcd-thumb-up', route: routes.XKCD_THUMB_UP_ROUTE, form: { comic_id: '353' }, values: { comic_id: 353 } },
+    { name: 'xkcd-thumb-up bad id', route: routes.XKCD_THUMB_UP_ROUTE, form: { comic_id: 'abc' }, errors: ['comic_id'] },
+    { name: 'xkcd-unlike', route: routes.XKCD_UNLIKE_ROUTE, form: { comic_id: '-1' }, errors: ['comic_id'] },
+    { name: 'xkcd-top defaults', route: routes.XKCD_TOP_ROUTE, values: { sortby: 'thumb-up', window: 'all', offset: 0, size: 10, expand: false } },
+    { name: 'xkcd-top trending', route: routes.XKCD_TOP_ROUTE, query: '?sortby=trending&window=week', values: { sortby: 'trending', window: 'week' } },
+    { name: 'xkcd-top limits', route: routes.XKCD_TOP_ROUTE, query: '?sortby=date&window=decade&size=101', errors: ['sortby', 'window', 'size'] },
+    { name: 'xkcd-random', route: routes.XKCD_RANDOM_ROUTE, query: '?full=1', values: { full: true, excludeSeen: false } },
+    { name: 'xkcd-random excludeSeen', route: routes.XKCD_RANDOM_ROUTE, query: '?excludeSeen=1', values: { excludeSeen: true } },
+    { name: 'xkcd-random constraints', route: routes.XKCD_RANDOM_ROUTE, query: '?from=100&to=200&year=2010&locale=ZH_CN&count=5&seed=2024-01-01', values: { from: 100, to: 200, year: 2010, locale: 'zh-cn', count: 5, seed: '2024-01-01' } },
+    { name: 'xkcd-random bad constraints', route: routes.XKCD_RANDOM_ROUTE, query: '?from=0&locale=xx&count=51&seed=a%20b', errors: ['from', 'locale', 'count', 'seed'] },
+    { name: 'xkcd-suggest', route: routes.XKCD_SUGGEST_ROUTE, query: '?q=bobby&size=5', values: { q: 'bobby', size: 5 } },
+    { name: 'xkcd-suggest missing q', route: routes.XKCD_SUGGEST_ROUTE, query: '?q=&size=51', errors: ['q', 'size'] },
+    { name: 'xkcd-search', route: routes.XKCD_SEARCH_ROUTE, query: '?q=tables', values: { q: 'tables', offset: 0, size: 20 } },
+    { name: 'xkcd-search bad paging', route: routes.XKCD_SEARCH_ROUTE, query: '?q=tables&offset=-20&size=0', errors: ['offset', 'size'] },
+    { name: 'xkcd-on-this-day', route: routes.XKCD_ON_THIS_DAY_ROUTE, query: '?date=02-29', values: { date: { month: 2, day: 29 } } },
+    { name: 'xkcd-on-this-day bad date', route: routes.XKCD_ON_THIS_DAY_ROUTE, query: '?date=13-01', errors: ['date'] },
+    { name: 'xkcd-on-this-day impossible date', route: routes.XKCD_ON_THIS_DAY_ROUTE, query: '?date=04-31', errors: ['date'] },
+    { name: 'xkcd-on-this-day February 31', route: routes.XKCD_ON_THIS_DAY_ROUTE, query: '?date=02-31', errors: ['date'] },
+    { name: 'xkcd-calendar', route: routes.XKCD_CALENDAR_ROUTE, query: '?year=abc', errors: ['year'] },
+    { name: 'xkcd-batch', route: routes.XKCD_BATCH_ROUTE, query: '?ids=3,1,3&locale=fr', values: { ids: [3, 1], locale: 'fr' } },
+    { name: 'xkcd-batch bad ids', route: routes.XKCD_BATCH_ROUTE, query: '?ids=1,x', errors: ['ids'] },
+    { name: 'xkcd-batch POST too many ids', route: routes.XKCD_BATCH_POST_ROUTE, form: { ids: manyIds }, errors: ['ids'] },
+    // What If
+    { name: 'what-if-list defaults', route: routes.WHAT_IF_LIST_ROUTE, values: { start: 0, size: 100, reversed: false } },
+    { name: 'what-if-list limits', route: routes.WHAT_IF_LIST_ROUTE, query: '?size=501&start=x', errors: ['start', 'size'] },
+    { name: 'what-if/:id', route: routes.WHAT_IF_GET_ROUTE, path: { id: '1.5' }, errors: ['id'] },
+    { name: 'what-if-search', route: routes.WHAT_IF_SEARCH_ROUTE, query: '?q=lightning', values: { q: 'lightning', offset: 0, size: 20 } },
+    { name: 'what-if-search limits', route: routes.WHAT_IF_SEARCH_ROUTE, query: '?offset=-1&size=51', errors: ['q', 'offset', 'size'] },
+    { name: 'what-if/:id/images', route: routes.WHAT_IF_IMAGES_ROUTE, path: { id: '0' }, errors: ['id'] },
+    { name: 'what-if/:id/offline', route: routes.WHAT_IF_OFFLINE_ROUTE, path: { id: '157' }, values: { id: 157 } },
+    { name: 'what-if-offline', route: routes.WHAT_IF_OFFLINE_ZIP_ROUTE, query: '?ids=3,1,3', values: { ids: [3, 1] } },
+    { name: 'what-if-offline too many ids', route: routes.WHAT_IF_OFFLINE_ZIP_ROUTE, query: `?ids=${Array.from({ length: 21 }, (_, i) => i + 1).join(',')}`, errors: ['ids'] },
+    { name: 'what-if/:id full', route: routes.WHAT_IF_GET_ROUTE, path: { id: '15' }, query: '?full=1', values: { id: 15, full: true } },
+    { name: 'what-if-thumb-up', route: routes.WHAT_IF_THUMB_UP_ROUTE, form: {}, errors: ['what_if_id'] },
+    { name: 'what-if-unlike', route: routes.WHAT_IF_UNLIKE_ROUTE, form: { what_if_id: '3' }, values: { what_if_id: 3 } },
+    { name: 'what-if-top', route: routes.WHAT_IF_TOP_ROUTE, query: '?size=-1&offset=-1&expand=yes', errors: ['offset', 'size', 'expand'] },
+    { name: 'what-if-top expanded', route: routes.WHAT_IF_TOP_ROUTE, query: '?expand=1&offset=20', values: { expand: true, offset: 20 } },
+    { name: 'what-if-random excludeSeen', route: routes.WHAT_IF_RANDOM_ROUTE, query: '?excludeSeen=yes', errors: ['excludeSeen'] },
+    { name: 'what-if-suggest', route: routes.WHAT_IF_SUGGEST_ROUTE, query: '?q=baseball', values: { q: 'baseball', size: 20 } },
+    // Localized
+    { name: 'archive defaults', route: routes.LOCALIZED_ARCHIVE_ROUTE, values: { start: 0, size: 100, locale: 'zh-cn' } },
+    { name: 'archive empty locale', route: routes.LOCALIZED_ARCHIVE_ROUTE, query: '?locale=', values: { locale: 'zh-cn' } },
+    { name: 'archive limits', route: routes.LOCALIZED_ARCHIVE_ROUTE, query: '?size=1000&locale=RU', errors: ['size'] },
+    { name: 'localized search', route: routes.LOCALIZED_SEARCH_ROUTE, query: '?q=chat&locale=fr', values: { q: 'chat', locale: 'fr', offset: 0, size: 20 } },
+    { name: 'localized info.0.json', route: routes.LOCALIZED_INFO_ROUTE, path: { comicId: '2' }, values: { comicId: 2, locale: 'zh-cn' } },
+    { name: 'localized thumb-up', route: routes.LOCALIZED_THUMB_UP_ROUTE, form: { comic_id: '2', locale: 'ZH_TW' }, values: { comic_id: 2, locale: 'zh-tw' } },
+    { name: 'localized unlike strict locale', route: routes.LOCALIZED_UNLIKE_ROUTE, form: { comic_id: '2', locale: 'xx' }, errors: ['locale'] },
+    { name: 'localized daily', route: routes.LOCALIZED_DAILY_ROUTE, query: '?locale=ES', values: { locale: 'es' } },
+    { name: 'localized top', route: routes.LOCALIZED_TOP_ROUTE, query: '?window=week&expand=1', values: { locale: 'zh-cn', sortby: 'thumb-up', window: 'week', offset: 0, size: 10, expand: true } },
+    // Favorites
+    { name: 'favorites', route: routes.FAVORITES_LIST_ROUTE, query: '?since=12', values: { since: 12, size: 500 } },
+    { name: 'favorites add', route: routes.FAVORITES_ADD_ROUTE, form: { comic_id: '5', comic_type: 'what_if', updated_at: '1700000000000' }, values: { comic_id: 5, comic_type: 'what_if', updated_at: 1700000000000 } },
+    { name: 'favorites remove bad type', route: routes.FAVORITES_REMOVE_ROUTE, form: { comic_id: '5', comic_type: 'whatif' }, errors: ['comic_type'] },
+    // Read progress
+    { name: 'read-progress', route: routes.READ_PROGRESS_ROUTE, query: '?comic_type=what_if&since=40', values: { comic_type: 'what_if', since: 40 } },
+    { name: 'read-progress/seen', route: routes.READ_PROGRESS_SEEN_ROUTE, form: { ids: '3,1-2,10-12' }, values: { comic_type: 'comic', ids: [[1, 3], [10, 12]] } },
+    { name: 'read-progress/seen bad range', route: routes.READ_PROGRESS_SEEN_ROUTE, form: { ids: '12-10' }, errors: ['ids'] },
+    // v2
+    { name: 'v2 comics', route: routes.V2_COMICS_ROUTE, query: '?order=desc&size=5', values: { order: 'desc', size: 5, full: false } },
+    { name: 'v2 comics bad order', route: routes.V2_COMICS_ROUTE, query: '?order=up&size=501&day=1', errors: ['size', 'order', 'day'] },
+    { name: 'v2 comics/random', route: routes.V2_COMIC_RANDOM_ROUTE, query: '?full=0', values: { full: false } },
+    { name: 'v2 comics/search', route: routes.V2_COMIC_SEARCH_ROUTE, query: '?size=20', errors: ['q'] },
+    { name: 'v2 comics/batch strict locale', route: routes.V2_COMIC_BATCH_ROUTE, query: '?ids=1&locale=xx', errors: ['locale'] },
+    { name: 'v2 comics/batch POST', route: routes.V2_COMIC_BATCH_POST_ROUTE, form: { ids: '1,2', locale: 'zh' }, values: { ids: [1, 2], locale: 'zh-cn' } },
+    { name: 'v2 comics/:num', route: routes.V2_COMIC_ROUTE, path: { num: '-4' }, errors: ['num'] },
+    { name: 'v2 what-if', route: routes.V2_WHAT_IF_LIST_ROUTE, query: '?cursor=abc', values: { cursor: 'abc', size: 100, order: 'asc' } },
+    { name: 'v2 what-if/:num', route: routes.V2_WHAT_IF_ROUTE, path: { num: '7' }, query: '?full=1', values: { num: 7, full: true } },
+    { name: 'v2 localized comics', route: routes.V2_LOCALIZED_COMICS_ROUTE, path: { locale: 'FR' }, values: { locale: 'fr', size: 100 } },
+    { name: 'v2 localized search', route: routes.V2_LOCALIZED_SEARCH_ROUTE, path: { locale: 'xx' }, query: '?q=a', errors: ['locale'] },
+    { name: 'v2 localized comic', route: routes.V2_LOCALIZED_COMIC_ROUTE, path: { locale: 'zh_TW', num: '3' }, values: { locale: 'zh-tw', num: 3 } },
+    // Crawler
+    { name: 'crawler logs', route: routes.CRAWLER_LOGS_ROUTE, values: { limit: 50 } },
+    { name: 'crawler logs limit', route: routes.CRAWLER_LOGS_ROUTE, query: '?limit=100000', errors: ['limit'] },
+    { name: 'crawler localized start', route: routes.CRAWLER_LOCALIZED_START_ROUTE, path: { language: 'zh_CN' }, values: { language: 'zh-cn' } }
+];
+
+async function parse({ route, path = {}, query = '', form }: ParamCase) {
+    const init = form ? { method: 'POST', body: new URLSearchParams(form) } : {};
+    const request = Object.assign(new Request(`https://example.com/test${query}`, init), { params: path });
+    return parseRequest(route, request);
+}
+
+describe('Route parameter parsing', () => {
+    test.each(cases)('$name', async (paramCase) => {
+        const { values, errors } = await parse(paramCase);
+        expect(errors.map(error => error.name)).toEqual(paramCase.errors || []);
+        if (paramCase.values) expect(values).toMatchObject(paramCase.values);
+    });
+
+    test('should cover every route that declares parameters', () => {
+        const covered = new Set(cases.map(paramCase => paramCase.route));
+        const uncovered = routes.ROUTE_SCHEMAS.filter(route => route.params && !covered.has(route));
+        expect(uncovered.map(route => `${route.method} ${route.path}`)).toEqual([]);
+    });
+});
@@ -0,0 +1,20 @@
+import { describe, test, expect } from 'vitest';
+import { createRandom } from '../../src/utils/random';
+
+describe('Seeded random', () => {
+    test('should repeat the sequence of a seed', () => {
+        const take = (random: () => number) => Array.from({ length: 5 }, random);
+        expect(take(createRandom('2024-01-01'))).toEqual(take(createRandom('2024-01-01')));
+        expect(take(createRandom('2024-01-01'))).not.toEqual(take(createRandom('2024-01-02')));
+        expect(createRandom()).toBe(Math.random);
+    });
+
+    test('should stay within [0, 1)', () => {
+        const random = createRandom('range');
+        for (let i = 0; i < 1000; i++) {
+            const value = random();
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        }
+    });
+});
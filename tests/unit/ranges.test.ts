@@ -0,0 +1,20 @@
+import { describe, test, expect } from 'vitest';
+import { countIdRanges, mergeIdRanges, parseIdRanges } from '../../src/progress/ranges';
+
+describe('Read progress ranges', () => {
+    test('should parse ids and ranges into merged ranges', () => {
+        expect(parseIdRanges('5-6, 1,2,3 ,9').ranges).toEqual([[1, 3], [5, 6], [9, 9]]);
+        expect(parseIdRanges('').error).toBeDefined();
+        expect(parseIdRanges('0').error).toBeDefined();
+        expect(parseIdRanges('7-3').error).toBeDefined();
+        expect(parseIdRanges('1-x').error).toBeDefined();
+    });
+
+    test('should merge overlapping and adjacent ranges from several lists', () => {
+        const merged = mergeIdRanges([[1, 100], [200, 210]], [[101, 150], [205, 300]], [[400, 400]]);
+        expect(merged).toEqual([[1, 150], [200, 300], [400, 400]]);
+        expect(countIdRanges(merged)).toBe(150 + 101 + 1);
+        // Order of the lists doesn't matter
+        expect(mergeIdRanges([[400, 400]], [[101, 150], [205, 300]], [[1, 100], [200, 210]])).toEqual(merged);
+    });
+});
@@ -0,0 +1,22 @@
+import { describe, test, expect } from 'vitest';
+import { trendingWeights, windowStartDay, TRENDING_HORIZON_DAYS } from '../../src/likes/ranking';
+
+describe('Like ranking', () => {
+    const now = new Date('2024-03-01T12:00:00Z');
+
+    test('should start each window on the right UTC day', () => {
+        expect(windowStartDay('day', now)).toBe('2024-03-01');
+        expect(windowStartDay('week', now)).toBe('2024-02-24');
+        expect(windowStartDay('month', now)).toBe('2024-02-01');
+        expect(windowStartDay('year', now)).toBe('2023-03-03');
+        expect(windowStartDay('all', now)).toBeNull();
+    });
+
+    test('should halve trending weights every half-life within the horizon', () => {
+        const weights = trendingWeights(now);
+        expect(Object.keys(weights)).toHaveLength(TRENDING_HORIZON_DAYS);
+        expect(weights['2024-03-01']).toBe(1);
+        expect(weights['2024-02-27']).toBeCloseTo(0.5);
+        expect(weights['2024-01-31']).toBeUndefined();
+    });
+});
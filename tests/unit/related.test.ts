@@ -0,0 +1,29 @@
+import { describe, test, expect } from 'vitest';
+import { extractCrossReferences, extractTermWeights, tokenize } from '../../src/search/related';
+
+describe('Related comics terms', () => {
+    test('should drop stop words and fold plurals', () => {
+        expect(tokenize("The Graphs of Nature's Bounties are IN")).toEqual(['graph', 'nature', 'bounty']);
+        expect(tokenize('a an of')).toEqual([]);
+    });
+
+    test('should weight title terms over transcript terms', () => {
+        const terms = extractTermWeights({ title: 'Compiling', alt: 'Sword fights', transcript: 'compiling sword chair' });
+        const weights = Object.fromEntries(terms.map(({ term, weight }) => [term, weight]));
+        expect(terms[0].term).toBe('compiling');
+        expect(weights.compiling).toBeGreaterThan(weights.sword);
+        expect(weights.sword).toBeGreaterThan(weights.chair);
+        expect(terms.reduce((sum, { weight }) => sum + weight * weight, 0)).toBeCloseTo(1);
+    });
+
+    test('should find links to other comics', () => {
+        const comic = {
+            id: 1000,
+            alt: 'See xkcd 927 and also xkcd #1000',
+            transcript: 'http://xkcd.com/327/ and https://xkcd.com/927',
+            news: '',
+            link: ''
+        };
+        expect(extractCrossReferences(comic).sort((a, b) => a - b)).toEqual([327, 927]);
+    });
+});
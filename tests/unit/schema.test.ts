@@ -0,0 +1,48 @@
+import { describe, test, expect } from 'vitest';
+import { checkParam, collectFieldErrors, validateRequest } from '../../src/http/schema';
+import { buildOpenApiDocument } from '../../src/http/openapi';
+import { ROUTE_SCHEMAS, XKCD_LIST_ROUTE, XKCD_THUMB_UP_ROUTE, V2_COMIC_ROUTE } from '../../src/routes/schemas';
+
+describe('Route schemas', () => {
+    test('should check integers, booleans and required values', () => {
+        expect(checkParam('10', { type: 'integer', minimum: 1, maximum: 100 })).toBeNull();
+        expect(checkParam('1.5', { type: 'integer' })).toBe('must be an integer');
+        expect(checkParam('0', { type: 'integer', minimum: 1 })).toBe('must be >= 1');
+        expect(checkParam('true', { type: 'boolean' })).toBe('must be one of 0, 1');
+        expect(checkParam(null, { type: 'string', required: true })).toBe('is required');
+        expect(checkParam('', { type: 'string', allowEmpty: true })).toBeNull();
+    });
+
+    test('should collect query and form errors with their location', async () => {
+        const list = new Request('https://example.com/xkcd-list?size=abc&start=-1&cachebust=1');
+        expect(await collectFieldErrors(XKCD_LIST_ROUTE, list)).toEqual([
+            { in: 'query', name: 'start', message: 'must be >= 0' },
+            { in: 'query', name: 'size', message: 'must be an integer' }
+        ]);
+
+        const thumbUp = new Request('https://example.com/xkcd-thumb-up', { method: 'POST', body: new URLSearchParams({ comic_id: '0' }) });
+        expect(await collectFieldErrors(XKCD_THUMB_UP_ROUTE, thumbUp)).toEqual([
+            { in: 'form', name: 'comic_id', message: 'must be >= 1' }
+        ]);
+    });
+
+    test('should answer v2 routes with an enveloped validation error', async () => {
+        const request = Object.assign(new Request('https://example.com/v2/comics/abc'), { params: { num: 'abc' } });
+        const response = await validateRequest(V2_COMIC_ROUTE)(request);
+        expect(response?.status).toBe(400);
+        expect(await response?.json()).toMatchObject({ data: null, error: { code: 'validation_error', details: [{ in: 'path', name: 'num' }] } });
+    });
+
+    test('should document every visible route exactly once', () => {
+        const visible = ROUTE_SCHEMAS.filter(route => !route.hidden);
+        const keys = visible.map(route => `${route.method} ${route.path}`);
+        expect(new Set(keys).size).toBe(keys.length);
+
+        const document = buildOpenApiDocument(ROUTE_SCHEMAS, 'https://example.com') as any;
+        expect(document.openapi).toBe('3.1.0');
+        const operations = Object.values(document.paths).flatMap((methods: any) => Object.keys(methods));
+        expect(operations).toHaveLength(visible.length);
+        expect(document.paths['/v2/comics/{num}'].get.responses[400].content['application/json'].schema)
+            .toEqual({ $ref: '#/components/schemas/ErrorEnvelope' });
+    });
+});
@@ -0,0 +1,88 @@
+import { describe, test, expect } from 'vitest';
+import { parseWhatIfArchive, parseWhatIfArticle } from '../../src/crawlers/whatif-article';
+import { decodeHtmlEntities, sanitizeHtml } from '../../src/utils/html-sanitize';
+
+const ARTICLE_HTML = `
+<html><body>
+<div id="entry-wrapper">
+<article class="entry">
+<a href="https://what-if.xkcd.com/158/"><h1>Hot Banana</h1></a>
+<p id="question">What&#39;s the hottest you could heat a banana?</p>
+<p id="attribute">&mdash;Cara Vessey</p>
+<p>Pretty hot.<span class="ref"><span class="refnum">[1]</span><span class="refbody">About <a href="/45/">this hot</a>, <span class="gray">roughly</span>.</span></span></p>
+<img class="illustration" src="/imgs/a/158/banana.png" title="Ripe &quot;enough&quot;" onerror="alert(1)">
+<script>track()</script>
+<p>Then it melts.<span class="ref"><span class="refnum">[2]</span><span class="refbody"><a href="javascript:alert(1)">Citation</a> needed.</span></span></p>
+</article>
+</div>
+</body></html>`;
+
+describe('What If article parser', () => {
+    test('should extract the question, asker and answer', () => {
+        const article = parseWhatIfArticle(ARTICLE_HTML, 158)!;
+        expect(article.title).toBe('Hot Banana');
+        expect(article.url).toBe('https://what-if.xkcd.com/158/');
+        expect(article.question).toBe("What's the hottest you could heat a banana?");
+        expect(article.asker).toBe('Cara Vessey');
+        expect(article.answer).toContain('<p>Pretty hot.<sup class="ref" id="ref-1"><a href="#fn-1">[1]</a></sup></p>');
+        expect(article.answer).not.toContain('script');
+        expect(article.answer).not.toContain('onerror');
+        expect(article.answer).not.toContain('Hot Banana');
+    });
+
+    test('should move footnotes out of the answer', () => {
+        const { footnotes, answer } = parseWhatIfArticle(ARTICLE_HTML, 158)!;
+        expect(footnotes).toEqual([
+            { num: 1, html: 'About <a href="https://what-if.xkcd.com/45/">this hot</a>, <span class="gray">roughly</span>.' },
+            { num: 2, html: '<a>Citation</a> needed.' }
+        ]);
+        expect(answer).not.toContain('refbody');
+    });
+
+    test('should list inline images with absolute URLs', () => {
+        expect(parseWhatIfArticle(ARTICLE_HTML, 158)!.images)
+            .toEqual([{ src: 'https://what-if.xkcd.com/imgs/a/158/banana.png', title: 'Ripe "enough"' }]);
+    });
+
+    test('should reject pages without a title', () => {
+        expect(parseWhatIfArticle('<html><body>Not found</body></html>', 999)).toBeNull();
+    });
+});
+
+describe('What If archive parser', () => {
+    test('should list archive entries with titles, dates and thumbnails', () => {
+        const html = `
+            <div class="archive-entry">
+                <a href="https://what-if.xkcd.com/157/"><img class="archive-image" src="/imgs/a/157/archive_crop.png"></a>
+                <h1 class="archive-title"><a href="https://what-if.xkcd.com/157/">Electrofishing for Whales</a></h1>
+                <h2 class="archive-date">November 6, 2017</h2>
+            </div>
+            <div class="archive-entry">
+                <a href="/1/"></a>
+                <h1 class="archive-title"><a href="/1/">Relativistic Baseball</a></h1>
+                <h2 class="archive-date">July 3, 2012</h2>
+            </div>`;
+        expect(parseWhatIfArchive(html)).toEqual([
+            { id: 157, title: 'Electrofishing for Whales', date: 'November 6, 2017', thumbnail: 'https://what-if.xkcd.com/imgs/a/157/archive_crop.png' },
+            { id: 1, title: 'Relativistic Baseball', date: 'July 3, 2012', thumbnail: null }
+        ]);
+    });
+
+    test('should fall back to article links without entry markup', () => {
+        const html = '<a href="https://what-if.xkcd.com/12/">a</a> <a href="/13/">b</a> <a href="/12/">again</a> <a href="/archive/">archive</a>';
+        expect(parseWhatIfArchive(html).map(({ id }) => id)).toEqual([12, 13]);
+    });
+});
+
+describe('HTML sanitizer', () => {
+    test('should keep allowed tags and drop the rest', () => {
+        expect(sanitizeHtml('<div onclick="x()"><p style="color:red">Hi <em>there</em></p><iframe src="https://evil"></iframe></div>', 'https://what-if.xkcd.com/1/'))
+            .toBe('<p>Hi <em>there</em></p>');
+        expect(sanitizeHtml('<img src="data:image/png;base64,AAAA"><a href="//xkcd.com/1">1</a>', 'https://what-if.xkcd.com/1/'))
+            .toBe('<a href="https://xkcd.com/1">1</a>');
+    });
+
+    test('should decode entities', () => {
+        expect(decodeHtmlEntities('&lt;b&gt; &amp; &#8212; &#x2014; &bogus;')).toBe('<b> & — — &bogus;');
+    });
+});
@@ -0,0 +1,51 @@
+import { describe, test, expect, vi } from 'vitest';
+import { createExecutionContext, waitOnExecutionContext } from 'cloudflare:test';
+import { Router } from 'itty-router';
+import { registerWhatIfRoutes } from '../../src/routes/whatif';
+import { CursorPage } from '../../src/http/cursor';
+
+// cloudflare:test loads the main worker, whose crawlers' image probe (a Node package) doesn't load in the test runtime
+vi.mock('probe-image-size', () => ({ default: async () => null }));
+
+const env = { CURSOR_SECRET: 'test-secret' };
+
+// Articles 1-5; pages are read from memory instead of D1
+const ARTICLES = [1, 2, 3, 4, 5].map(id => ({ id, title: `Article ${id}`, url: `https://what-if.xkcd.com/${id}/`, date: '' }));
+const db = {
+    async getWhatIfsByCursor(page: CursorPage) {
+        const ordered = page.order === 'desc' ? [...ARTICLES].reverse() : ARTICLES;
+        const start = page.anchorId === null ? 0 : ordered.findIndex(({ id }) => id === page.anchorId) + 1;
+        const whatIfs = ordered.slice(start, start + page.size);
+        return { whatIfs, hasNext: start + page.size < ordered.length, hasPrev: start > 0 };
+    }
+};
+
+async function list(query: string): Promise<Response> {
+    const router = Router();
+    registerWhatIfRoutes(router);
+    const ctx = createExecutionContext();
+    const response = await router.fetch(new Request(`https://what-if.test/what-if-list?${query}`), env, ctx, { db });
+    // Let the edge cache write finish inside the test
+    await waitOnExecutionContext(ctx);
+    return response;
+}
+
+// Each test uses its own URL so responses cached by another test aren't served
+describe('What If list caching', () => {
+    test('should mark cursor pages with their order and whether more follow', async () => {
+        const response = await list('cursor=&reversed=1&size=2&case=headers');
+        expect(response.headers.get('X-Pagination-Reversed')).toBe('1');
+        expect(response.headers.get('X-Pagination-HasMore')).toBe('1');
+        expect(response.headers.get('Link')).toContain('rel="next"');
+    });
+
+    test('should cache the newest-first cursor page briefly and older pages longer', async () => {
+        // The first newest-first page changes as soon as an article is published
+        const newest = await list('cursor=&reversed=1&size=2&case=newest');
+        expect(newest.headers.get('Cache-Control')).toBe('public, max-age=60, s-maxage=300');
+
+        // The first oldest-first page never changes
+        const oldest = await list('cursor=&size=2&case=oldest');
+        expect(oldest.headers.get('Cache-Control')).toBe('public, max-age=300, s-maxage=3600');
+    });
+});